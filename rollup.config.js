@@ -3,31 +3,68 @@ import commonjs from "@rollup/plugin-commonjs";
 import typescript from "@rollup/plugin-typescript";
 import peerDepsExternal from "rollup-plugin-peer-deps-external";
 
-export default {
-  input: "src/index.ts",
-  output: [
-    {
-      file: "dist/index.js",
-      format: "cjs",
-      sourcemap: true,
+export default [
+  {
+    // One build, so all entry points share a single ApiConfig
+    input: {
+      index: "src/index.ts",
+      testing: "src/testing/index.tsx",
+      devtools: "src/devtools/index.ts",
     },
-    {
-      file: "dist/index.esm.js",
-      format: "esm",
-      sourcemap: true,
+    output: [
+      {
+        dir: "dist",
+        format: "cjs",
+        sourcemap: true,
+        entryFileNames: "[name].js",
+        chunkFileNames: "[name]-[hash].js",
+      },
+      {
+        dir: "dist",
+        format: "esm",
+        sourcemap: true,
+        entryFileNames: "[name].esm.js",
+        chunkFileNames: "[name]-[hash].esm.js",
+      },
+    ],
+    plugins: [
+      peerDepsExternal(),
+      resolve({
+        browser: true,
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: "./tsconfig.json",
+        declaration: true,
+        declarationDir: "dist",
+      }),
+    ],
+    external: [
+      "react",
+      "react-dom",
+      "react/jsx-runtime",
+      "@tanstack/react-query",
+      "@testing-library/react",
+      "axios",
+    ],
+  },
+  // The code generator CLI runs in Node, apart from the browser bundle
+  {
+    input: "src/cli/bin.ts",
+    output: {
+      file: "dist/cli.js",
+      format: "cjs",
+      banner: "#!/usr/bin/env node",
     },
-  ],
-  plugins: [
-    peerDepsExternal(),
-    resolve({
-      browser: true,
-    }),
-    commonjs(),
-    typescript({
-      tsconfig: "./tsconfig.json",
-      declaration: true,
-      declarationDir: "dist",
-    }),
-  ],
-  external: ["react", "react-dom", "@tanstack/react-query", "axios"],
-};
+    plugins: [
+      typescript({
+        tsconfig: "./tsconfig.json",
+        declaration: false,
+        declarationMap: false,
+        sourceMap: false,
+        outDir: "dist",
+      }),
+    ],
+    external: ["fs", "path"],
+  },
+];
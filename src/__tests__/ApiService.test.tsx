@@ -153,4 +153,360 @@ describe("ApiService", () => {
       expect(result.current.error).toEqual(mockError);
     });
   });
+  describe("path params", () => {
+    it("should interpolate and encode query path params", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+
+      const apiService = new ApiService("test");
+      const { result } = renderHook(
+        () =>
+          apiService.useQuery({
+            key: ["posts", 1, "a b"],
+            url: "/users/:id/posts/:postId",
+            pathParams: { id: 1, postId: "a b" },
+          }),
+        { wrapper }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ url: "/users/1/posts/a%20b" })
+      );
+    });
+
+    it("should resolve mutation path params from the variables", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+
+      const apiService = new ApiService("test");
+      const { result } = renderHook(
+        () =>
+          apiService.useMutation<unknown, { id: number; name: string }>({
+            url: "/users/:id",
+            method: "put",
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate({ id: 5, name: "Renamed" });
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "/users/5",
+          data: { id: 5, name: "Renamed" },
+        })
+      );
+    });
+
+    it("should include hook-level path params in the mutation key", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+
+      const apiService = new ApiService("test");
+      const { result } = renderHook(
+        () =>
+          apiService.useMutation({
+            url: "/users/:id",
+            method: "delete",
+            pathParams: { id: 9 },
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate(undefined);
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      const [mutation] = queryClient.getMutationCache().getAll();
+      expect(mutation.options.mutationKey).toEqual([
+        "/users/:id",
+        "delete",
+        { id: 9 },
+      ]);
+    });
+
+    it("should fail when a placeholder is unresolved", async () => {
+      const apiService = new ApiService("test");
+      const { result } = renderHook(
+        () =>
+          apiService.useMutation({
+            url: "/users/:id",
+            method: "delete",
+          }),
+        { wrapper }
+      );
+
+      result.current.mutate({});
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(result.current.error?.message).toBe(
+        "Missing value for path parameter ':id' in '/users/:id'"
+      );
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+
+    it("should reject, not throw, when a request's placeholder is unresolved", async () => {
+      const apiService = new ApiService("test");
+
+      let request: Promise<unknown> | undefined;
+      expect(() => {
+        request = apiService.get("/users/:id");
+      }).not.toThrow();
+
+      await expect(request).rejects.toThrow(
+        "Missing value for path parameter ':id' in '/users/:id'"
+      );
+      expect(mockAxios).not.toHaveBeenCalled();
+    });
+
+    it("should leave colons that are not whole segments alone", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+
+      const apiService = new ApiService("test");
+      await apiService.post("/v1/projects/123:publish");
+      await apiService.get("/search?q=tag:red");
+      await apiService.get("/teams/:id/search?q=owner:me#top", {
+        pathParams: { id: 7 },
+      });
+      // A `Link` header's next page
+      await apiService.get("https://api.test:8443/items?cursor=a:b");
+
+      expect(mockAxios.mock.calls.map(([config]: any[]) => config.url)).toEqual(
+        [
+          "/v1/projects/123:publish",
+          "/search?q=tag:red",
+          "/teams/7/search?q=owner:me#top",
+          "https://api.test:8443/items?cursor=a:b",
+        ]
+      );
+    });
+  });
+  describe("imperative requests", () => {
+    it("should return the response body", async () => {
+      mockAxios.mockResolvedValue({ data: { id: 1 } });
+
+      const apiService = new ApiService("test");
+      const user = await apiService.get<{ id: number }>("/users/:id", {
+        pathParams: { id: 1 },
+        params: { expand: "posts" },
+      });
+
+      expect(user).toEqual({ id: 1 });
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "/users/1",
+          method: "get",
+          params: { expand: "posts" },
+        })
+      );
+    });
+
+    it("should send bodies for write methods", async () => {
+      mockAxios.mockResolvedValue({ data: { ok: true } });
+
+      const apiService = new ApiService("test");
+      await apiService.patch("/users/1", { name: "New" });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: "/users/1",
+          method: "patch",
+          data: { name: "New" },
+        })
+      );
+    });
+
+    it("should fill the cache under the useQuery key", async () => {
+      const mockData = [{ id: 1 }];
+      mockAxios.mockResolvedValue({ data: mockData });
+
+      const apiService = new ApiService("test");
+      await apiService.prefetchQuery(queryClient, {
+        key: ["users"],
+        url: "/users",
+      });
+
+      const { result } = renderHook(
+        () => apiService.useQuery({ key: ["users"], url: "/users" }),
+        { wrapper }
+      );
+
+      expect(result.current.data).toEqual(mockData);
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("cancellation", () => {
+    // Responds only when told to
+    const deferredResponse = () => {
+      let respond: (data: unknown) => void = () => undefined;
+      mockAxios.mockImplementation(
+        () =>
+          new Promise((resolve) => {
+            respond = (data) => resolve({ data });
+          })
+      );
+      return (data: unknown) => respond(data);
+    };
+
+    it("should share identical in-flight GET requests", async () => {
+      const respond = deferredResponse();
+      const apiService = new ApiService("test");
+
+      const first = apiService.get("/users", { params: { page: 1 } });
+      const second = apiService.get("/users", { params: { page: 1 } });
+      respond([{ id: 1 }]);
+
+      await expect(Promise.all([first, second])).resolves.toEqual([
+        [{ id: 1 }],
+        [{ id: 1 }],
+      ]);
+      expect(mockAxios).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not share different or non-GET requests", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+      const apiService = new ApiService("test");
+
+      await Promise.all([
+        apiService.get("/users", { params: { page: 1 } }),
+        apiService.get("/users", { params: { page: 2 } }),
+        apiService.get("/users", { dedupe: false, params: { page: 1 } }),
+        apiService.post("/users", {}),
+        apiService.post("/users", {}),
+      ]);
+
+      expect(mockAxios).toHaveBeenCalledTimes(5);
+    });
+
+    it("should abort the request once every caller cancelled", async () => {
+      deferredResponse();
+      const apiService = new ApiService("test");
+
+      const first = apiService.get("/users");
+      const second = apiService.get("/users");
+      const { signal } = mockAxios.mock.calls[0][0];
+
+      first.cancel();
+      await expect(first).rejects.toMatchObject({ kind: "cancelled" });
+      expect(signal.aborted).toBe(false);
+
+      second.cancel();
+      await expect(second).rejects.toMatchObject({ kind: "cancelled" });
+      expect(signal.aborted).toBe(true);
+    });
+
+    it("should pass React Query's signal to axios", async () => {
+      mockAxios.mockResolvedValue({ data: [] });
+      const apiService = new ApiService("test");
+
+      const { result } = renderHook(
+        () => apiService.useQuery({ key: ["users"], url: "/users" }),
+        { wrapper }
+      );
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(mockAxios).toHaveBeenCalledWith(
+        expect.objectContaining({ signal: expect.anything() })
+      );
+    });
+  });
+
+  describe("optimistic updates", () => {
+    const renderOptimisticMutation = (
+      keyToInvalidate?: { queryKey: unknown[] },
+      onError = jest.fn()
+    ) => {
+      const apiService = new ApiService("test");
+      return renderHook(
+        () =>
+          apiService.useMutation<unknown, { name: string }>({
+            url: "/todos",
+            keyToInvalidate,
+            optimistic: {
+              queryKeys: [["todos"]],
+              updater: (old: string[] | undefined, variables) => [
+                ...(old ?? []),
+                variables.name,
+              ],
+            },
+            options: {
+              onMutate: () => "user context",
+              onError,
+            },
+          }),
+        { wrapper }
+      );
+    };
+
+    it("should update matching queries before the request resolves", async () => {
+      queryClient.setQueryData(["todos", { done: false }], ["a"]);
+      let resolve: (value: unknown) => void = () => undefined;
+      mockAxios.mockReturnValue(new Promise((r) => (resolve = r)));
+
+      const { result } = renderOptimisticMutation();
+      result.current.mutate({ name: "b" });
+
+      await waitFor(() => {
+        expect(queryClient.getQueryData(["todos", { done: false }])).toEqual([
+          "a",
+          "b",
+        ]);
+      });
+
+      resolve({ data: {} });
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+    });
+
+    it("should roll back on error and pass the user's context", async () => {
+      queryClient.setQueryData(["todos"], ["a"]);
+      mockAxios.mockRejectedValue(new Error("Mutation failed"));
+      const onError = jest.fn();
+
+      const { result } = renderOptimisticMutation(undefined, onError);
+      result.current.mutate({ name: "b" });
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true);
+      });
+
+      expect(queryClient.getQueryData(["todos"])).toEqual(["a"]);
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(Error),
+        { name: "b" },
+        "user context",
+        expect.anything()
+      );
+    });
+
+    it("should invalidate keyToInvalidate once settled", async () => {
+      mockAxios.mockResolvedValue({ data: {} });
+      const invalidate = jest.spyOn(queryClient, "invalidateQueries");
+
+      const { result } = renderOptimisticMutation({ queryKey: ["lists"] });
+      result.current.mutate({ name: "b" });
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true);
+      });
+
+      expect(invalidate).toHaveBeenCalledTimes(1);
+      expect(invalidate).toHaveBeenCalledWith({ queryKey: ["lists"] });
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import { createApiClient } from "../config";
+import { ApiService } from "../services/ApiService";
+import { createMockAdapter, expectRequest, withMockAdapter } from "../testing";
+import { ApiClientOptions, ServiceConfig, TokenManager } from "../types";
+
+const createTokenManager = (accessToken: string): TokenManager => {
+  let token: string | null = accessToken;
+  return {
+    getAccessToken: () => token,
+    setAccessToken: jest.fn((next) => (token = next)),
+    getRefreshToken: () => "refresh",
+    clearTokens: jest.fn(),
+  };
+};
+
+const setup = (
+  services: Record<string, Partial<ServiceConfig>>,
+  options: Partial<ApiClientOptions> = {}
+) => {
+  const mock = createMockAdapter();
+  const client = createApiClient(
+    withMockAdapter(
+      {
+        services: Object.fromEntries(
+          Object.entries(services).map(([name, service]) => [
+            name,
+            { baseURL: `https://${name}.test`, ...service },
+          ])
+        ),
+        tokenManager: createTokenManager("user-token"),
+        ...options,
+      },
+      mock
+    )
+  );
+  return { mock, client };
+};
+
+describe("auth schemes", () => {
+  it("should send the client's bearer token by default", async () => {
+    const { mock, client } = setup({ api: {} });
+    mock.onGet("/me").reply(200, {});
+
+    await new ApiService("api", client).get("/me");
+
+    expect(mock.history[0].headers.Authorization).toBe("Bearer user-token");
+  });
+
+  it("should send API keys in a header or the query", async () => {
+    let key = "key-1";
+    const { mock, client } = setup({
+      maps: { auth: { type: "apiKey", key: () => key } },
+      search: { auth: { type: "apiKey", key: "key-2", query: "api_key" } },
+    });
+    mock.onGet("/tiles").reply(200, {});
+    mock.onGet("/search").reply(200, {});
+
+    await new ApiService("maps", client).get("/tiles");
+    key = "key-3";
+    await new ApiService("maps", client).get("/tiles");
+    await new ApiService("search", client).get("/search", {
+      params: { q: "x" },
+    });
+
+    expect(mock.history.map((request) => request.headers["X-API-Key"])).toEqual(
+      ["key-1", "key-3", undefined]
+    );
+    expect(mock.history[2].params).toEqual({ q: "x", api_key: "key-2" });
+    expect(
+      mock.history.every((request) => !request.headers.Authorization)
+    ).toBe(true);
+  });
+
+  it("should send basic credentials, or none", async () => {
+    const { mock, client } = setup({
+      legacy: {
+        auth: { type: "basic", username: "ada", password: "pässword" },
+      },
+      cdn: { auth: { type: "none" } },
+    });
+    mock.onGet("/report").reply(200, {});
+    mock.onGet("/asset").reply(200, {});
+
+    await new ApiService("legacy", client).get("/report");
+    await new ApiService("cdn", client).get("/asset");
+
+    expect(mock.history[0].headers.Authorization).toBe(
+      "Basic YWRhOnDDpHNzd29yZA=="
+    );
+    expect(mock.history[1].headers.Authorization).toBeUndefined();
+  });
+
+  it("should sign the request the middleware leave, on every attempt", async () => {
+    let nonce = 0;
+    const sign = jest.fn((config) => {
+      nonce += 1;
+      config.headers["X-Signature"] = `${config.headers["X-Tenant"]}:${nonce}`;
+    });
+    const { mock, client } = setup({
+      payments: {
+        auth: { type: "custom", sign },
+        retry: { baseDelay: 0, methods: ["post"] },
+        middleware: [
+          {
+            onRequest: (config) => {
+              config.headers["X-Tenant"] = "acme";
+            },
+          },
+        ],
+      },
+    });
+    mock.onPost("/charges").reply(201, {}).onPost("/charges").replyOnce(503);
+
+    await new ApiService("payments", client).post("/charges", { amount: 5 });
+
+    expect(sign).toHaveBeenCalledTimes(2);
+    expect(
+      mock.history.map((request) => request.headers["X-Signature"])
+    ).toEqual(["acme:1", "acme:2"]);
+  });
+
+  it("should refresh a service's own token manager at its endpoint", async () => {
+    const partnerTokens = createTokenManager("partner-stale");
+    const { mock, client } = setup({
+      api: { refreshEndpoint: "/auth/refresh" },
+      partner: {
+        refreshEndpoint: "/oauth/refresh",
+        auth: { type: "bearer", tokenManager: partnerTokens },
+      },
+    });
+    mock
+      .onGet("/orders")
+      .reply((request) =>
+        request.headers.Authorization === "Bearer partner-fresh"
+          ? { data: [] }
+          : { status: 401, data: { code: "TOKEN_EXPIRED" } }
+      );
+    mock
+      .onPost("/oauth/refresh")
+      .reply(200, { data: { accessToken: "partner-fresh" } });
+
+    await expect(
+      new ApiService("partner", client).get("/orders")
+    ).resolves.toEqual([]);
+
+    expectRequest(
+      mock,
+      { service: "partner", method: "post", url: "/oauth/refresh" },
+      { data: { refreshToken: "refresh" }, times: 1 }
+    );
+    expect(client.getTokenManager()?.getAccessToken()).toBe("user-token");
+    expect(client.getTokenManager("partner")).toBe(partnerTokens);
+  });
+
+  it("should not refresh for other schemes", async () => {
+    const { mock, client } = setup({
+      api: { refreshEndpoint: "/auth/refresh" },
+      maps: { auth: { type: "apiKey", key: "key" } },
+    });
+    mock.onGet("/tiles").reply(401, { code: "TOKEN_EXPIRED" });
+
+    await expect(
+      new ApiService("maps", client).get("/tiles")
+    ).rejects.toMatchObject({ status: 401 });
+    expect(mock.getRequests({ method: "post" })).toEqual([]);
+  });
+});
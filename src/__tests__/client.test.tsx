@@ -0,0 +1,74 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { AxiosRequestConfig } from "axios";
+import { ApiConfig, createApiClient } from "../config";
+import { ApiClientProvider } from "../context";
+import { ApiService } from "../services/ApiService";
+
+// Services whose only endpoint answers every request with `tenant`
+const tenantServices = (tenant: string) => ({
+  api: {
+    baseURL: `https://${tenant}.api.test`,
+    config: {
+      adapter: async (config: AxiosRequestConfig) => ({
+        data: { tenant },
+        status: 200,
+        statusText: "",
+        headers: {},
+        config: config as any,
+      }),
+    },
+  },
+});
+
+const createTenantClient = (tenant: string) =>
+  createApiClient({ services: tenantServices(tenant) });
+
+describe("isolated clients", () => {
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should keep bound services on their own client", async () => {
+    const service = new ApiService("api");
+    const acme = new ApiService("api", createTenantClient("acme"));
+    const globex = service.withClient(createTenantClient("globex"));
+
+    await expect(acme.get("/me")).resolves.toEqual({ tenant: "acme" });
+    await expect(globex.get("/me")).resolves.toEqual({ tenant: "globex" });
+    expect(() => service.getClient()).toThrow(
+      "ApiConfig must be initialized with options first"
+    );
+  });
+
+  it("should fall back to the default client", async () => {
+    ApiConfig.initialize({ services: tenantServices("default") });
+
+    await expect(new ApiService("api").get("/me")).resolves.toEqual({
+      tenant: "default",
+    });
+  });
+
+  it("should use the provider's client in hooks", async () => {
+    const service = new ApiService("api");
+    const queryClient = new QueryClient();
+    const client = createTenantClient("provided");
+
+    const { result } = renderHook(
+      () => service.useQuery({ key: ["me"], url: "/me" }),
+      {
+        wrapper: ({ children }) => (
+          <QueryClientProvider client={queryClient}>
+            <ApiClientProvider client={client}>{children}</ApiClientProvider>
+          </QueryClientProvider>
+        ),
+      }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toEqual({ tenant: "provided" });
+  });
+});
@@ -0,0 +1,288 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { run } from "../cli";
+import { generateFromOpenApi, OpenApiDocument } from "../codegen/openapi";
+
+const petstore: OpenApiDocument = {
+  openapi: "3.0.3",
+  info: { title: "Petstore", version: "1.0.0" },
+  paths: {
+    "/pets": {
+      get: {
+        operationId: "listPets",
+        summary: "List all pets",
+        parameters: [
+          { name: "limit", in: "query", schema: { type: "integer" } },
+          {
+            name: "status",
+            in: "query",
+            schema: { type: "string", enum: ["available", "sold"] },
+          },
+        ],
+        responses: {
+          "200": {
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Pet" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        operationId: "createPet",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewPet" },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/pets/{pet-id}": {
+      parameters: [
+        {
+          name: "pet-id",
+          in: "path",
+          required: true,
+          schema: { type: "integer" },
+        },
+      ],
+      get: {
+        responses: {
+          "200": {
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Pet" },
+              },
+            },
+          },
+        },
+      },
+      delete: {
+        operationId: "deletePet",
+        deprecated: true,
+        responses: { "204": { description: "Deleted" } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Pet: {
+        allOf: [
+          { $ref: "#/components/schemas/NewPet" },
+          {
+            type: "object",
+            required: ["id"],
+            properties: { id: { type: "integer" } },
+          },
+        ],
+      },
+      NewPet: {
+        type: "object",
+        description: "A pet before it is stored",
+        required: ["name"],
+        properties: {
+          name: { type: "string" },
+          tag: { type: "string", nullable: true },
+          "x-rating": { type: "number" },
+          attributes: {
+            type: "object",
+            additionalProperties: { type: "string" },
+          },
+        },
+      },
+    },
+  },
+};
+
+describe("generateFromOpenApi", () => {
+  const output = generateFromOpenApi(petstore, { service: "pet-store" });
+
+  it("should declare component schemas", () => {
+    expect(output).toContain(
+      [
+        "/** A pet before it is stored */",
+        "export interface NewPet {",
+        "  name: string;",
+        "  tag?: string | null;",
+        '  "x-rating"?: number;',
+        "  attributes?: {",
+        "    [key: string]: string;",
+        "  };",
+        "}",
+      ].join("\n")
+    );
+    expect(output).toContain("export type Pet = NewPet & {\n  id: number;\n};");
+  });
+
+  it("should type path, query and body params", () => {
+    expect(output).toContain(
+      "export type GetPetsByPetIdPathParams = {\n  petId: number;\n};"
+    );
+    expect(output).toContain(
+      'export type ListPetsParams = {\n  limit?: number;\n  status?: "available" | "sold";\n};'
+    );
+    expect(output).toContain("export type CreatePetBody = NewPet;");
+    expect(output).toContain("export type CreatePetResponse = Pet;");
+    expect(output).toContain("export type DeletePetResponse = void;");
+  });
+
+  it("should generate a key factory and hooks bound to the service", () => {
+    expect(output).toContain(
+      'export const petStoreService = new ApiService("pet-store");'
+    );
+    expect(output).toContain(
+      'listPets: (params?: ListPetsParams): unknown[] => ["pet-store", "listPets", ...(params ? [params] : [])],'
+    );
+    expect(output).toContain(
+      [
+        "export function useGetPetsByPetId(args: { pathParams: GetPetsByPetIdPathParams } & QueryArgs<GetPetsByPetIdResponse>) {",
+        "  const { pathParams, ...props } = args;",
+        "  return petStoreService.useQuery<GetPetsByPetIdResponse>({",
+        "    ...props,",
+        "    key: petStoreKeys.getPetsByPetId(pathParams),",
+        '    url: "/pets/:petId",',
+        "    pathParams,",
+        '    method: "get",',
+        "  });",
+        "}",
+      ].join("\n")
+    );
+    expect(output).toContain(
+      "/** @deprecated */\nexport function useDeletePet(args: { pathParams: DeletePetPathParams } & MutationArgs<DeletePetResponse, DeletePetBody>) {"
+    );
+    expect(output).toContain(
+      "export function useCreatePet(args: MutationArgs<CreatePetResponse, CreatePetBody> = {}) {"
+    );
+  });
+
+  it("should be deterministic", () => {
+    const reordered = {
+      ...petstore,
+      components: {
+        schemas: {
+          Pet: petstore.components!.schemas!.Pet,
+          NewPet: petstore.components!.schemas!.NewPet,
+        },
+      },
+      paths: Object.fromEntries(Object.entries(petstore.paths!).reverse()),
+    };
+
+    expect(generateFromOpenApi(reordered, { service: "pet-store" })).toBe(
+      output
+    );
+  });
+
+  it("should order operations the same in every locale", () => {
+    const ok = { responses: { "204": { description: "No content" } } };
+    const generated = generateFromOpenApi(
+      {
+        openapi: "3.0.3",
+        info: { title: "Order", version: "1.0.0" },
+        paths: {
+          "/abc": { get: { operationId: "getAbc", ...ok } },
+          "/abd": { get: { operationId: "getABd", ...ok } },
+        },
+      },
+      { service: "api" }
+    );
+
+    // localeCompare would put getAbc first
+    expect(generated.indexOf("useGetABd(")).toBeLessThan(
+      generated.indexOf("useGetAbc(")
+    );
+  });
+
+  it("should rename types that clash with schemas", () => {
+    const clashing = {
+      ...petstore,
+      components: {
+        schemas: {
+          ...petstore.components!.schemas,
+          CreatePetBody: { type: "string" },
+        },
+      },
+    };
+
+    const generated = generateFromOpenApi(clashing, { service: "pets" });
+
+    expect(generated).toContain("export type CreatePetBody = string;");
+    expect(generated).toContain("export type CreatePetBody2 = NewPet;");
+  });
+
+  it("should reject documents it cannot read", () => {
+    expect(() =>
+      generateFromOpenApi({ swagger: "2.0" } as never, { service: "api" })
+    ).toThrow("Only OpenAPI 3 documents are supported");
+    expect(() =>
+      generateFromOpenApi(
+        {
+          openapi: "3.1.0",
+          components: {
+            schemas: { User: { $ref: "common.json#/User" } },
+          },
+        },
+        { service: "api" }
+      )
+    ).toThrow("Only local $refs are supported");
+  });
+});
+
+describe("lp-api-client generate", () => {
+  const setup = () => {
+    const dir = mkdtempSync(join(tmpdir(), "lp-api-client-"));
+    const spec = join(dir, "petstore.json");
+    writeFileSync(spec, JSON.stringify(petstore));
+    const io = { stdout: jest.fn(), stderr: jest.fn() };
+    return { dir, spec, io };
+  };
+
+  it("should write the generated module", () => {
+    const { dir, spec, io } = setup();
+    const out = join(dir, "generated", "petstore.ts");
+
+    expect(
+      run(["generate", spec, "--service", "pet-store", "--out", out], io)
+    ).toBe(0);
+
+    const written = readFileSync(out, "utf8");
+    expect(written).toBe(
+      generateFromOpenApi(petstore, {
+        service: "pet-store",
+        source: "petstore.json",
+      })
+    );
+    expect(written).toMatch(
+      /^\/\/ Generated by lp-api-client from petstore\.json/
+    );
+  });
+
+  it("should fail with usage on bad arguments", () => {
+    const { spec, io } = setup();
+
+    expect(run(["generate", spec], io)).toBe(1);
+    expect(io.stderr).toHaveBeenCalledWith(
+      expect.stringContaining("Missing --service")
+    );
+    expect(run(["generate", "missing.json", "--service", "api"], io)).toBe(1);
+    expect(io.stderr).toHaveBeenLastCalledWith(
+      expect.stringContaining("missing.json")
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { act, fireEvent, screen, waitFor } from "@testing-library/react";
+import { ApiConfig } from "../config";
+import { ApiClientDevtools, redactHeaders, useRequestLog } from "../devtools";
+import { ApiService } from "../services/ApiService";
+import { renderHookWithApiClient, renderWithApiClient } from "../testing";
+
+const clientOptions = {
+  tokenManager: {
+    getAccessToken: () => "secret",
+    setAccessToken: jest.fn(),
+    getRefreshToken: () => null,
+    clearTokens: jest.fn(),
+  },
+};
+
+describe("useRequestLog", () => {
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should record requests with redacted headers", async () => {
+    const { result, mock, client } = renderHookWithApiClient(
+      () => useRequestLog(),
+      { services: ["api"], clientOptions }
+    );
+    mock.onPost("/todos").reply({
+      status: 201,
+      data: { id: 1 },
+      headers: { "set-cookie": "sid=1" },
+    });
+
+    await act(() => new ApiService("api", client).post("/todos", { a: 1 }));
+
+    expect(result.current.entries).toHaveLength(1);
+    expect(result.current.entries[0]).toMatchObject({
+      service: "api",
+      method: "POST",
+      url: "/todos",
+      state: "success",
+      status: 201,
+      attempts: 1,
+      refreshed: false,
+      requestBody: { a: 1 },
+      responseBody: { id: 1 },
+      requestHeaders: expect.objectContaining({
+        Authorization: "[redacted]",
+      }),
+      responseHeaders: expect.objectContaining({ "set-cookie": "[redacted]" }),
+    });
+  });
+
+  it("should record retries and failures", async () => {
+    const { result, mock, client } = renderHookWithApiClient(
+      () => useRequestLog({ maxEntries: 1 }),
+      {
+        services: {
+          api: {
+            baseURL: "https://api.test",
+            retry: { maxAttempts: 2, baseDelay: 0, jitter: false },
+          },
+        },
+      }
+    );
+    mock.onGet("/down").reply(503, { message: "Unavailable" });
+    const api = new ApiService("api", client);
+
+    await act(() => api.get("/down").catch(() => undefined));
+    await act(() => api.get("/down").catch(() => undefined));
+
+    expect(result.current.entries).toHaveLength(1);
+    expect(result.current.entries[0]).toMatchObject({
+      state: "error",
+      status: 503,
+      attempts: 2,
+      error: "Unavailable",
+    });
+
+    act(() => result.current.clear());
+    expect(result.current.entries).toEqual([]);
+  });
+
+  it("should redact the listed headers case-insensitively", () => {
+    expect(
+      redactHeaders({ "X-Api-Key": "k", Accept: "json" }, ["x-api-key"])
+    ).toEqual({ "X-Api-Key": "[redacted]", Accept: "json" });
+  });
+
+  it("should redact each service's API key", async () => {
+    const { result, mock, client } = renderHookWithApiClient(
+      () => useRequestLog(),
+      {
+        services: {
+          header: { auth: { type: "apiKey", key: "k1", header: "X-Token" } },
+          query: { auth: { type: "apiKey", key: "k2", query: "api_key" } },
+        },
+      }
+    );
+    mock.onGet("/items").reply(200, []);
+
+    await act(() => new ApiService("header", client).get("/items"));
+    await act(() =>
+      new ApiService("query", client).get("/items?api_key=k2&page=1", {
+        params: { sort: "name" },
+      })
+    );
+
+    expect(result.current.entries[1].requestHeaders).toMatchObject({
+      "X-Token": "[redacted]",
+    });
+    expect(result.current.entries[0]).toMatchObject({
+      url: "/items?api_key=[redacted]&page=1",
+      params: { sort: "name", api_key: "[redacted]" },
+    });
+  });
+});
+
+describe("ApiClientDevtools", () => {
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should list and filter requests", async () => {
+    const { mock, client } = renderWithApiClient(
+      <ApiClientDevtools initialIsOpen />,
+      { services: ["api", "admin"] }
+    );
+    mock
+      .onGet("/users")
+      .reply(200, [])
+      .onGet("/missing", { service: "admin" })
+      .reply(404, { message: "Not found" });
+
+    await act(async () => {
+      await new ApiService("api", client).get("/users");
+      await new ApiService("admin", client)
+        .get("/missing")
+        .catch(() => undefined);
+    });
+
+    await waitFor(() => expect(screen.getByText("/missing")).toBeTruthy());
+    expect(screen.getByText("/users")).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText("Errors only"));
+    expect(screen.queryByText("/users")).toBeNull();
+
+    fireEvent.click(screen.getByText("/missing"));
+    expect(screen.getAllByText("Not found").length).toBeGreaterThan(0);
+
+    fireEvent.click(screen.getByLabelText("Errors only"));
+    fireEvent.change(screen.getByLabelText("Service"), {
+      target: { value: "api" },
+    });
+    expect(screen.queryByText("/missing")).toBeNull();
+    expect(screen.getByText("/users")).toBeTruthy();
+  });
+
+  it("should start closed behind a toggle", () => {
+    renderWithApiClient(<ApiClientDevtools />, { services: ["api"] });
+
+    fireEvent.click(screen.getByText("API (0)"));
+
+    expect(screen.getByRole("region")).toBeTruthy();
+  });
+});
@@ -0,0 +1,144 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ApiService } from "../services/ApiService";
+import { createEndpoints, endpoint, getEndpointQueryKey } from "../endpoints";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = require("axios");
+
+// Mock the ApiConfig
+jest.mock("../config", () => ({
+  ApiConfig: {
+    getInstance: jest.fn(() => ({
+      createAxiosInstance: jest.fn(() => mockAxios),
+      getNotificationManager: jest.fn(() => undefined),
+    })),
+  },
+}));
+
+interface User {
+  id: number;
+  name: string;
+}
+
+describe("createEndpoints", () => {
+  let queryClient: QueryClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+
+  const users = createEndpoints(new ApiService("test"), {
+    listUsers: endpoint<User[]>().query("/users", { key: ["users"] }),
+    getUser: endpoint<User>().query("/users/:id"),
+    updateUser: endpoint<User, Partial<User>>().mutation("/users/:id", "put"),
+  });
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    wrapper = ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    jest.clearAllMocks();
+  });
+
+  it("should generate query hooks with interpolated paths", async () => {
+    const mockData = { id: 7, name: "Test User" };
+    mockAxios.mockResolvedValue({ data: mockData });
+
+    const { result } = renderHook(
+      () => users.useGetUser({ pathParams: { id: 7 } }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toEqual(mockData);
+    expect(mockAxios).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/users/7", method: "get" })
+    );
+    expect(queryClient.getQueryData(["/users/:id", { id: 7 }])).toEqual(
+      mockData
+    );
+  });
+
+  it("should use the endpoint key when one is declared", async () => {
+    mockAxios.mockResolvedValue({ data: [] });
+
+    const { result } = renderHook(
+      () => users.useListUsers({ params: { page: 2 } }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(queryClient.getQueryData(["users", { page: 2 }])).toEqual([]);
+  });
+
+  it("should generate mutation hooks with the declared method", async () => {
+    mockAxios.mockResolvedValue({ data: { id: 3, name: "Renamed" } });
+
+    const { result } = renderHook(
+      () => users.useUpdateUser({ pathParams: { id: 3 } }),
+      { wrapper }
+    );
+
+    result.current.mutate({ name: "Renamed" });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(mockAxios).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: "/users/3",
+        method: "put",
+        data: { name: "Renamed" },
+      })
+    );
+  });
+
+  it("should take mutation path params from the variables", async () => {
+    mockAxios.mockResolvedValue({ data: {} });
+
+    const posts = createEndpoints(new ApiService("test"), {
+      deletePost: endpoint<void, { id: number }>().mutation(
+        "/posts/:id",
+        "delete"
+      ),
+    });
+
+    const { result } = renderHook(() => posts.useDeletePost(), { wrapper });
+
+    result.current.mutate({ id: 4 });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(mockAxios).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/posts/4", method: "delete" })
+    );
+  });
+
+  it("should require path params at compile time", () => {
+    const definition = endpoint<User>().query("/users/:id");
+    expect(getEndpointQueryKey(definition, { id: 1 })).toEqual([
+      "/users/:id",
+      { id: 1 },
+    ]);
+
+    // @ts-expect-error - missing the `id` path param
+    const missing = () => users.useGetUser({ pathParams: {} });
+    expect(missing).toBeInstanceOf(Function);
+  });
+});
@@ -0,0 +1,144 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { AxiosError, AxiosRequestConfig } from "axios";
+import { ApiConfig, createApiClient } from "../config";
+import { ApiClientProvider } from "../context";
+import { ApiClientError } from "../errors";
+import { pagePagination } from "../pagination";
+import { ApiService } from "../services/ApiService";
+import { EnvelopeConfig } from "../types";
+
+// Adapter answering every request with `body`, as an error for non-2xx
+const respondWith = (body: unknown, status = 200) =>
+  jest.fn(async (config: AxiosRequestConfig) => {
+    const response = {
+      data: body,
+      status,
+      statusText: "",
+      headers: {},
+      config: config as any,
+    };
+    if (status >= 400) {
+      throw new AxiosError(
+        "Request failed",
+        undefined,
+        config as any,
+        {},
+        response
+      );
+    }
+    return response;
+  });
+
+const createService = (
+  adapter: ReturnType<typeof respondWith>,
+  envelope: EnvelopeConfig | boolean = true
+) => {
+  ApiConfig.initialize({
+    services: {
+      api: { baseURL: "https://api.test", envelope, config: { adapter } },
+    },
+  });
+  return new ApiService("api");
+};
+
+describe("response envelope", () => {
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should return the unwrapped payload", async () => {
+    const service = createService(
+      respondWith({ success: true, message: "OK", data: { id: 1 } })
+    );
+
+    await expect(service.get("/users/1")).resolves.toEqual({ id: 1 });
+  });
+
+  it("should leave services without an envelope untouched", async () => {
+    const body = { success: true, data: { id: 1 } };
+    const service = createService(respondWith(body), false);
+
+    await expect(service.get("/users/1")).resolves.toEqual(body);
+  });
+
+  it("should read custom fields", async () => {
+    const service = createService(
+      respondWith({ ok: true, result: { user: { id: 1 } } }),
+      { data: "result.user", success: (body) => body.ok }
+    );
+
+    await expect(service.get("/users/1")).resolves.toEqual({ id: 1 });
+  });
+
+  it("should reject 2xx responses that report a failure", async () => {
+    const service = createService(
+      respondWith({ success: false, error: { message: "Nope", code: "NOPE" } })
+    );
+
+    const error = await service.get("/users/1").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).toMatchObject({ message: "Nope", code: "NOPE", status: 200 });
+  });
+
+  it("should read error messages from the envelope", async () => {
+    const service = createService(
+      respondWith({ ok: false, reason: "Email taken" }, 409),
+      { message: "reason" }
+    );
+
+    await expect(service.post("/users", {})).rejects.toMatchObject({
+      status: 409,
+      message: "Email taken",
+    });
+  });
+
+  it("should notify with the envelope message after a mutation", async () => {
+    const notificationManager = { success: jest.fn(), error: jest.fn() };
+    const client = createApiClient({
+      notificationManager,
+      services: {
+        api: {
+          baseURL: "https://api.test",
+          envelope: true,
+          config: {
+            adapter: respondWith({ success: true, message: "Saved", data: 1 }),
+          },
+        },
+      },
+    });
+    const queryClient = new QueryClient();
+
+    const { result } = renderHook(
+      () => new ApiService("api", client).useMutation({ url: "/users" }),
+      {
+        wrapper: ({ children }) => (
+          <QueryClientProvider client={queryClient}>
+            <ApiClientProvider client={client}>{children}</ApiClientProvider>
+          </QueryClientProvider>
+        ),
+      }
+    );
+
+    result.current.mutate({});
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toBe(1);
+    expect(notificationManager.success).toHaveBeenCalledWith("Saved");
+  });
+
+  it("should let pagination read totals from the envelope", () => {
+    const strategy = pagePagination({ limit: 2 });
+    const response = (total: number) =>
+      ({
+        data: [{ id: 1 }, { id: 2 }],
+        envelope: { body: { meta: { total } } },
+      } as any);
+
+    expect(strategy.getNextPageParam(response(3), 1)).toBe(2);
+    expect(strategy.getNextPageParam(response(2), 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+import { AxiosError, AxiosRequestConfig } from "axios";
+import { ApiConfig } from "../config";
+import {
+  ApiClientError,
+  CancelledError,
+  ForbiddenError,
+  getErrorMessage,
+  isCancelledError,
+  NetworkError,
+  ServerError,
+  TimeoutError,
+  toApiClientError,
+  UnauthorizedError,
+  ValidationError,
+} from "../errors";
+
+const axiosError = (status?: number, data?: unknown, code?: string) =>
+  new AxiosError(
+    "Request failed",
+    code,
+    {} as any,
+    {},
+    status === undefined
+      ? undefined
+      : ({ data, status, statusText: "", headers: {}, config: {} } as any)
+  );
+
+describe("toApiClientError", () => {
+  it.each([
+    ["network", axiosError(undefined, undefined, "ERR_NETWORK"), NetworkError],
+    ["timeout", axiosError(undefined, undefined, "ECONNABORTED"), TimeoutError],
+    [
+      "cancelled",
+      axiosError(undefined, undefined, "ERR_CANCELED"),
+      CancelledError,
+    ],
+    ["401", axiosError(401), UnauthorizedError],
+    ["403", axiosError(403), ForbiddenError],
+    ["422", axiosError(422), ValidationError],
+    ["503", axiosError(503), ServerError],
+  ])("should map %s errors", (_label, error, ErrorClass) => {
+    const normalized = toApiClientError(error);
+
+    expect(normalized).toBeInstanceOf(ErrorClass);
+    expect(normalized).toBeInstanceOf(ApiClientError);
+  });
+
+  it("should keep the body message, code and field errors", () => {
+    const error = toApiClientError(
+      axiosError(400, {
+        message: "Invalid input",
+        code: "INVALID",
+        errors: [
+          { field: "email", message: "Required" },
+          { field: "email", message: "Must be an email" },
+        ],
+      })
+    ) as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.message).toBe("Invalid input");
+    expect(error.code).toBe("INVALID");
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors).toEqual({
+      email: ["Required", "Must be an email"],
+    });
+    expect(error.response?.data?.message).toBe("Invalid input");
+  });
+
+  it("should treat 400 without field errors as a plain http error", () => {
+    const error = toApiClientError(axiosError(400, { message: "Bad" }));
+
+    expect(error).toBeInstanceOf(ApiClientError);
+    expect(error).not.toBeInstanceOf(ValidationError);
+    expect((error as ApiClientError).kind).toBe("http");
+  });
+
+  it("should recognize cancellations", () => {
+    expect(
+      isCancelledError(axiosError(undefined, undefined, "ERR_CANCELED"))
+    ).toBe(true);
+    expect(isCancelledError(new CancelledError("Request cancelled"))).toBe(
+      true
+    );
+    expect(isCancelledError(axiosError(500))).toBe(false);
+  });
+
+  it("should leave other errors unchanged", () => {
+    const error = new Error("boom");
+
+    expect(toApiClientError(error)).toBe(error);
+    expect(getErrorMessage(error)).toBe("boom");
+  });
+});
+
+describe("error interceptor", () => {
+  const adapter = jest.fn(async (config: AxiosRequestConfig) => {
+    throw new AxiosError("Request failed", undefined, config as any, {}, {
+      data: { error: { detail: "Slow down", type: "RATE" } },
+      status: 429,
+      statusText: "",
+      headers: {},
+      config,
+    } as any);
+  });
+
+  it("should reject with normalized errors using the configured extractor", async () => {
+    ApiConfig.initialize({
+      services: { test: { baseURL: "https://api.test", config: { adapter } } },
+      errorExtractor: (error) => {
+        const body = error.response?.data as {
+          error: { detail: string; type: string };
+        };
+        return { message: body.error.detail, code: body.error.type };
+      },
+    });
+    const instance = ApiConfig.getInstance().createAxiosInstance("test");
+
+    await expect(instance.get("/users")).rejects.toMatchObject({
+      kind: "http",
+      status: 429,
+      message: "Slow down",
+      code: "RATE",
+    });
+  });
+});
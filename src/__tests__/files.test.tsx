@@ -0,0 +1,200 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { isCancelledError } from "../errors";
+import { ApiService } from "../services/ApiService";
+import { memoryStorage } from "../storage";
+import { getContentDispositionFilename, toFormData } from "../utils/files";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = require("axios");
+
+// Mock the ApiConfig
+jest.mock("../config", () => ({
+  ApiConfig: {
+    getInstance: jest.fn(() => ({
+      createAxiosInstance: jest.fn(() => mockAxios),
+      getNotificationManager: jest.fn(() => undefined),
+    })),
+  },
+}));
+
+describe("toFormData", () => {
+  it("should append files, arrays, dates and nested objects", () => {
+    const file = new File(["hello"], "hello.txt");
+    const formData = toFormData({
+      title: "Report",
+      file,
+      tags: ["a", "b"],
+      due: new Date("2024-01-02T00:00:00.000Z"),
+      meta: { owner: { id: 7 } },
+      skipped: undefined,
+    });
+
+    expect(formData.get("title")).toBe("Report");
+    expect((formData.get("file") as File).name).toBe("hello.txt");
+    expect(formData.getAll("tags")).toEqual(["a", "b"]);
+    expect(formData.get("due")).toBe("2024-01-02T00:00:00.000Z");
+    expect(formData.get("meta[owner][id]")).toBe("7");
+    expect(formData.has("skipped")).toBe(false);
+  });
+
+  it("should pass FormData through", () => {
+    const formData = new FormData();
+    expect(toFormData(formData)).toBe(formData);
+  });
+});
+
+describe("getContentDispositionFilename", () => {
+  it.each([
+    ['attachment; filename="report.pdf"', "report.pdf"],
+    ["attachment; filename=report.pdf", "report.pdf"],
+    [
+      "attachment; filename=\"fallback.pdf\"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+      "résumé.pdf",
+    ],
+    ["inline", undefined],
+    [undefined, undefined],
+  ])("should parse %s", (header, filename) => {
+    expect(getContentDispositionFilename(header)).toBe(filename);
+  });
+});
+
+describe("transfer hooks", () => {
+  let queryClient: QueryClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+  const service = new ApiService("test");
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: { mutations: { retry: false } },
+    });
+
+    wrapper = ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    jest.clearAllMocks();
+  });
+
+  it("should upload FormData and track progress", async () => {
+    mockAxios.mockImplementation(async (config: any) => {
+      config.onUploadProgress({ loaded: 50, total: 200 });
+      return { data: { id: 1 } };
+    });
+
+    const { result } = renderHook(
+      () => service.useUpload<{ id: number }>({ url: "/files" }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.mutate({ file: new File(["x"], "x.txt") });
+    });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    const config = mockAxios.mock.calls[0][0];
+    expect(config.data).toBeInstanceOf(FormData);
+    expect(config.method).toBe("post");
+    expect(result.current.progress).toEqual({
+      loaded: 50,
+      total: 200,
+      percent: 25,
+    });
+  });
+
+  it("should abort the upload on cancel", async () => {
+    mockAxios.mockImplementation(
+      (config: any) =>
+        new Promise((_resolve, reject) => {
+          config.signal.addEventListener("abort", () =>
+            reject(
+              Object.assign(new Error("canceled"), {
+                isAxiosError: true,
+                code: "ERR_CANCELED",
+              })
+            )
+          );
+        })
+    );
+
+    const { result } = renderHook(() => service.useUpload({ url: "/files" }), {
+      wrapper,
+    });
+
+    act(() => {
+      result.current.mutate({ file: new File(["x"], "x.txt") });
+    });
+    await waitFor(() => {
+      expect(mockAxios).toHaveBeenCalled();
+    });
+    act(() => {
+      result.current.cancel();
+    });
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+    expect(isCancelledError(result.current.error)).toBe(true);
+  });
+
+  it("should track resumable uploads as hook state", async () => {
+    mockAxios.mockImplementation(async (config: any) =>
+      config.method === "post"
+        ? { data: undefined, headers: { location: "/files/1" } }
+        : { data: undefined, headers: {} }
+    );
+
+    const { result } = renderHook(
+      () =>
+        service.useResumableUpload({
+          url: "/files",
+          chunkSize: 2,
+          storage: memoryStorage(),
+        }),
+      { wrapper }
+    );
+
+    expect(result.current.status).toBe("idle");
+    await act(async () => {
+      await result.current.start(new Blob(["abcd"]));
+    });
+
+    expect(result.current.status).toBe("completed");
+    expect(result.current.progress).toEqual({
+      loaded: 4,
+      total: 4,
+      percent: 100,
+    });
+    expect(mockAxios).toHaveBeenCalledTimes(3);
+  });
+
+  it("should download a Blob with its filename", async () => {
+    const blob = new Blob(["data"]);
+    mockAxios.mockResolvedValue({
+      data: blob,
+      headers: { "content-disposition": 'attachment; filename="data.csv"' },
+    });
+
+    const { result } = renderHook(
+      () => service.useDownload({ url: "/exports/:id" }),
+      { wrapper }
+    );
+
+    act(() => {
+      result.current.mutate({ pathParams: { id: 3 } });
+    });
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(result.current.data).toEqual({ blob, filename: "data.csv" });
+    expect(mockAxios).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/exports/3", responseType: "blob" })
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { createApiClient } from "../config";
+import { ApiService } from "../services/ApiService";
+import { createMockAdapter, withMockAdapter } from "../testing";
+import { ApiClientOptions, Middleware } from "../types";
+
+const setup = (options: Partial<ApiClientOptions> = {}) => {
+  const mock = createMockAdapter();
+  const client = createApiClient(
+    withMockAdapter(
+      {
+        services: { api: { baseURL: "https://api.test" } },
+        tokenManager: {
+          getAccessToken: () => "token",
+          setAccessToken: jest.fn(),
+          clearTokens: jest.fn(),
+        },
+        ...options,
+      },
+      mock
+    )
+  );
+  return { mock, api: new ApiService("api", client) };
+};
+
+// Records the stages it runs through in `calls`
+const tracing = (name: string, calls: string[]): Middleware => ({
+  name,
+  onRequest: (config) => {
+    calls.push(`${name}:request:${config.headers.Authorization}`);
+  },
+  onResponse: (response) => {
+    calls.push(`${name}:response:${response.status}`);
+  },
+  onError: (error) => {
+    calls.push(`${name}:error:${error.kind}`);
+  },
+});
+
+describe("middleware", () => {
+  it("should run client middleware around service middleware", async () => {
+    const calls: string[] = [];
+    const { mock, api } = setup({
+      middleware: [tracing("client", calls)],
+      services: {
+        api: {
+          baseURL: "https://api.test",
+          middleware: [tracing("service", calls)],
+        },
+      },
+    });
+    mock.onGet("/me").reply(200, {});
+
+    await api.get("/me");
+
+    expect(calls).toEqual([
+      "client:request:Bearer token",
+      "service:request:Bearer token",
+      "service:response:200",
+      "client:response:200",
+    ]);
+  });
+
+  it("should let onRequest change the request", async () => {
+    const { mock, api } = setup({
+      middleware: [
+        {
+          onRequest: (config) => {
+            config.headers["X-Request-Id"] = "req-1";
+            return config;
+          },
+        },
+      ],
+    });
+    mock.onGet("/me").reply(200, {});
+
+    await api.get("/me");
+
+    expect(mock.history[0].headers["X-Request-Id"]).toBe("req-1");
+  });
+
+  it("should short-circuit with a synthetic response", async () => {
+    const calls: string[] = [];
+    const { mock, api } = setup({
+      middleware: [
+        { onRequest: (_config, { respond }) => respond({ cached: true }) },
+        tracing("next", calls),
+      ],
+    });
+
+    await expect(api.get("/me")).resolves.toEqual({ cached: true });
+    expect(mock.history).toEqual([]);
+    // Later onRequest stages are skipped, response stages still run
+    expect(calls).toEqual(["next:response:200"]);
+  });
+
+  it("should transform responses and recover from errors", async () => {
+    const { mock, api } = setup({
+      middleware: [
+        {
+          onResponse: (response) => ({
+            ...response,
+            data: { ...response.data, seen: true },
+          }),
+          onError: (error, { respond }) =>
+            error.status === 404 ? respond(null) : undefined,
+        },
+      ],
+    });
+    mock.onGet("/me").reply(200, { id: 1 }).onGet("/boom").reply(500);
+
+    await expect(api.get("/me")).resolves.toEqual({ id: 1, seen: true });
+    await expect(api.get("/missing")).resolves.toBeNull();
+    await expect(api.get("/boom")).rejects.toMatchObject({ kind: "server" });
+  });
+
+  it("should see retried requests once", async () => {
+    const calls: string[] = [];
+    const { mock, api } = setup({
+      middleware: [tracing("client", calls)],
+      services: {
+        api: {
+          baseURL: "https://api.test",
+          retry: { maxAttempts: 2, baseDelay: 0 },
+        },
+      },
+    });
+    mock.onGet("/me").reply(200, {}).onGet("/me").replyOnce(503);
+
+    await api.get("/me");
+
+    expect(mock.history).toHaveLength(2);
+    expect(calls).toEqual([
+      "client:request:Bearer token",
+      "client:request:Bearer token",
+      "client:response:200",
+    ]);
+  });
+});
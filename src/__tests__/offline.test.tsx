@@ -0,0 +1,327 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import {
+  onlineManager,
+  QueryClient,
+  QueryClientProvider,
+} from "@tanstack/react-query";
+import { AxiosRequestConfig } from "axios";
+import { createApiClient } from "../config";
+import { ApiClientProvider } from "../context";
+import { isQueuedMutationError } from "../errors";
+import { OfflineOptions } from "../offline";
+import { useMutationQueue } from "../offline/useMutationQueue";
+import { ApiService } from "../services/ApiService";
+import { memoryStorage, StorageAdapter } from "../storage";
+import { ApiClientOptions } from "../types";
+
+const respond = (config: AxiosRequestConfig, status = 200, data: any = {}) => {
+  const response = {
+    data,
+    status,
+    statusText: "",
+    headers: {},
+    config: config as any,
+  };
+  if (status < 400) return response;
+  throw Object.assign(new Error(`Request failed with status ${status}`), {
+    isAxiosError: true,
+    config,
+    response,
+  });
+};
+
+const networkError = (config: AxiosRequestConfig) =>
+  Object.assign(new Error("Network Error"), {
+    isAxiosError: true,
+    code: "ERR_NETWORK",
+    config,
+  });
+
+const createClient = (
+  adapter: jest.Mock,
+  offline: OfflineOptions & { storage: StorageAdapter },
+  options: Partial<ApiClientOptions> = {}
+) =>
+  createApiClient({
+    services: { api: { baseURL: "https://api.test", config: { adapter } } },
+    tokenManager: {
+      getAccessToken: () => "token",
+      setAccessToken: jest.fn(),
+      clearTokens: jest.fn(),
+    },
+    offline,
+    ...options,
+  });
+
+describe("offline mutations", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+  });
+
+  afterEach(() => {
+    onlineManager.setOnline(true);
+  });
+
+  it("should queue while offline and replay once back online", async () => {
+    const adapter = jest.fn(async (config) => respond(config));
+    const storage = memoryStorage();
+    const client = createClient(adapter, { storage });
+    const service = new ApiService("api", client);
+    const invalidate = jest.spyOn(queryClient, "invalidateQueries");
+    onlineManager.setOnline(false);
+
+    const { result } = renderHook(
+      () => ({
+        mutation: service.useMutation<unknown, { title: string }>({
+          url: "/todos",
+          offline: true,
+          keyToInvalidate: { queryKey: ["todos"] },
+        }),
+        queue: useMutationQueue(),
+      }),
+      {
+        wrapper: ({ children }) => (
+          <QueryClientProvider client={queryClient}>
+            <ApiClientProvider client={client}>{children}</ApiClientProvider>
+          </QueryClientProvider>
+        ),
+      }
+    );
+
+    act(() => {
+      result.current.mutation.mutate({ title: "Offline" });
+    });
+
+    await waitFor(() => {
+      expect(result.current.mutation.isError).toBe(true);
+    });
+    expect(isQueuedMutationError(result.current.mutation.error)).toBe(true);
+    expect(adapter).not.toHaveBeenCalled();
+    expect(result.current.queue.pending).toBe(1);
+    await expect(storage.getItem("mutation-queue")).resolves.toHaveLength(1);
+
+    act(() => {
+      onlineManager.setOnline(true);
+    });
+
+    await waitFor(() => {
+      expect(result.current.queue.items).toEqual([]);
+    });
+    const [config] = adapter.mock.calls[0];
+    expect(config.url).toBe("/todos");
+    expect(config.method).toBe("post");
+    expect(JSON.parse(config.data)).toEqual({ title: "Offline" });
+    expect(config.headers.Authorization).toBe("Bearer token");
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ["todos"] });
+    await expect(storage.getItem("mutation-queue")).resolves.toBeUndefined();
+  });
+
+  it("should queue mutations that fail with a network error", async () => {
+    const adapter = jest.fn(async (config) => {
+      throw networkError(config);
+    });
+    const client = createClient(adapter, { storage: memoryStorage() });
+    const service = new ApiService("api", client);
+
+    const { result } = renderHook(
+      () =>
+        service.useMutation({
+          url: "/todos/:id",
+          method: "put",
+          offline: true,
+        }),
+      {
+        wrapper: ({ children }) => (
+          <QueryClientProvider client={queryClient}>
+            {children}
+          </QueryClientProvider>
+        ),
+      }
+    );
+
+    act(() => {
+      result.current.mutate({ id: 3, done: true });
+    });
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+    expect(isQueuedMutationError(result.current.error)).toBe(true);
+    expect(client.getMutationQueue()?.getItems()).toMatchObject([
+      { url: "/todos/3", method: "put", data: { id: 3, done: true } },
+    ]);
+  });
+
+  it("should replay mutations restored from storage in order", async () => {
+    const storage = memoryStorage();
+    const queued = (id: string, url: string) => ({
+      id,
+      service: "api",
+      url,
+      method: "post",
+      createdAt: 0,
+      attempts: 0,
+      status: "pending",
+    });
+    await storage.setItem("mutation-queue", [
+      queued("a", "/first"),
+      { ...queued("b", "/second"), invalidate: [["todos"]] },
+    ]);
+    const adapter = jest.fn(async (config) => respond(config));
+    const invalidate = jest.spyOn(queryClient, "invalidateQueries");
+
+    const queue = createClient(adapter, {
+      storage,
+      queryClient,
+    }).getMutationQueue()!;
+    await queue.flush();
+
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      "/first",
+      "/second",
+    ]);
+    expect(queue.getItems()).toEqual([]);
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ["todos"] });
+  });
+
+  it("should invalidate once replayed, with no component mounted", async () => {
+    const adapter = jest.fn(async (config) => respond(config));
+    const client = createClient(adapter, { storage: memoryStorage() });
+    const service = new ApiService("api", client);
+    const invalidate = jest.spyOn(queryClient, "invalidateQueries");
+    onlineManager.setOnline(false);
+
+    const { result, unmount } = renderHook(
+      () =>
+        service.useMutation({
+          url: "/todos",
+          offline: true,
+          keyToInvalidate: { queryKey: ["todos"] },
+        }),
+      {
+        wrapper: ({ children }) => (
+          <QueryClientProvider client={queryClient}>
+            {children}
+          </QueryClientProvider>
+        ),
+      }
+    );
+
+    act(() => {
+      result.current.mutate({ title: "Offline" });
+    });
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+    unmount();
+    invalidate.mockClear();
+
+    onlineManager.setOnline(true);
+    await client.getMutationQueue()!.flush();
+
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith({ queryKey: ["todos"] });
+  });
+
+  it("should resolve conflicts with onConflict", async () => {
+    const adapter = jest.fn(async (config) =>
+      config.headers["If-Match"] === "v2"
+        ? respond(config)
+        : respond(config, 409, { version: "v2" })
+    );
+    const onConflict = jest.fn(() => ({ headers: { "If-Match": "v2" } }));
+    const client = createClient(adapter, {
+      storage: memoryStorage(),
+      onConflict,
+    });
+    const queue = client.getMutationQueue()!;
+
+    onlineManager.setOnline(false);
+    await queue.enqueue({ service: "api", url: "/todos/1", method: "put" });
+    onlineManager.setOnline(true);
+    await queue.flush();
+
+    expect(onConflict).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "/todos/1", attempts: 1 }),
+      expect.objectContaining({ status: 409 })
+    );
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(queue.getItems()).toEqual([]);
+  });
+
+  it("should keep failed mutations until retried or removed", async () => {
+    const adapter = jest
+      .fn()
+      .mockImplementationOnce(async (config) => respond(config, 400))
+      .mockImplementation(async (config) => respond(config));
+    const queue = createClient(adapter, {
+      storage: memoryStorage(),
+    }).getMutationQueue()!;
+    const events: string[] = [];
+    queue.subscribe((event) => events.push(event.type));
+
+    onlineManager.setOnline(false);
+    await queue.enqueue({ service: "api", url: "/todos", method: "post" });
+    onlineManager.setOnline(true);
+    await queue.flush();
+
+    expect(queue.getItems()).toMatchObject([
+      {
+        status: "failed",
+        attempts: 1,
+        error: "Request failed with status 400",
+      },
+    ]);
+
+    await queue.retry(queue.getItems()[0].id);
+    expect(queue.getItems()).toEqual([]);
+    expect(events).toEqual(["queued", "failed", "replayed"]);
+  });
+
+  it("should log failed replays and stop replaying once destroyed", async () => {
+    const adapter = jest.fn(async (config) => respond(config, 409));
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const queue = createClient(
+      adapter,
+      {
+        storage: memoryStorage(),
+        onConflict: () => {
+          throw new Error("Merge failed");
+        },
+      },
+      { logger }
+    ).getMutationQueue()!;
+
+    onlineManager.setOnline(false);
+    await queue.enqueue({ service: "api", url: "/todos/1", method: "put" });
+    onlineManager.setOnline(true);
+
+    await waitFor(() => {
+      expect(logger.error).toHaveBeenCalledWith(
+        "Replaying queued mutations failed",
+        { error: expect.objectContaining({ message: "Merge failed" }) }
+      );
+    });
+
+    queue.destroy();
+    adapter.mockClear();
+    onlineManager.setOnline(false);
+    onlineManager.setOnline(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(adapter).not.toHaveBeenCalled();
+  });
+});
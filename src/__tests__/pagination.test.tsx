@@ -0,0 +1,191 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ApiService } from "../services/ApiService";
+import {
+  cursorPagination,
+  linkHeaderPagination,
+  offsetPagination,
+  pagePagination,
+  parseLinkHeader,
+} from "../pagination";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = require("axios");
+
+// Mock the ApiConfig
+jest.mock("../config", () => ({
+  ApiConfig: {
+    getInstance: jest.fn(() => ({
+      createAxiosInstance: jest.fn(() => mockAxios),
+      getNotificationManager: jest.fn(() => undefined),
+    })),
+  },
+}));
+
+const response = (data: unknown, headers: Record<string, string> = {}) =>
+  ({ data, headers } as any);
+
+describe("pagination strategies", () => {
+  it("should stop page pagination at the reported total", () => {
+    const strategy = pagePagination({ limit: 10 });
+
+    expect(strategy.getRequest(2)).toEqual({ params: { page: 2, limit: 10 } });
+    expect(strategy.getNextPageParam(response({ total: 25 }), 2)).toBe(3);
+    expect(strategy.getNextPageParam(response({ total: 25 }), 3)).toBe(
+      undefined
+    );
+  });
+
+  it("should continue offset pagination while pages are full", () => {
+    const strategy = offsetPagination({ limit: 2 });
+
+    expect(strategy.getNextPageParam(response({ data: [1, 2] }), 0)).toBe(2);
+    expect(strategy.getNextPageParam(response({ data: [3] }), 2)).toBe(
+      undefined
+    );
+  });
+
+  it("should read the next cursor from the body", () => {
+    const strategy = cursorPagination();
+
+    expect(strategy.getRequest(null)).toEqual({ params: {} });
+    expect(
+      strategy.getNextPageParam(response({ meta: { nextCursor: "abc" } }), null)
+    ).toBe("abc");
+    expect(strategy.getNextPageParam(response({ meta: {} }), "abc")).toBe(
+      undefined
+    );
+  });
+
+  it("should parse Link headers", () => {
+    expect(
+      parseLinkHeader(
+        '<https://api.test/items?page=2>; rel="next", <https://api.test/items?page=5>; rel="last"'
+      )
+    ).toEqual({
+      next: "https://api.test/items?page=2",
+      last: "https://api.test/items?page=5",
+    });
+  });
+});
+
+describe("ApiService pagination hooks", () => {
+  let queryClient: QueryClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } },
+    });
+
+    wrapper = ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    jest.clearAllMocks();
+  });
+
+  it("should fetch the next page with params from the strategy", async () => {
+    mockAxios
+      .mockResolvedValueOnce(response({ data: [1, 2], total: 3 }))
+      .mockResolvedValueOnce(response({ data: [3], total: 3 }));
+
+    const apiService = new ApiService("test");
+    const { result } = renderHook(
+      () =>
+        apiService.useInfiniteQuery({
+          key: ["items"],
+          url: "/items",
+          params: { q: "x" },
+          pagination: pagePagination({ limit: 2 }),
+        }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.hasNextPage).toBe(true);
+    });
+
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(2);
+    });
+
+    expect(mockAxios).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        url: "/items",
+        params: { q: "x", page: 2, limit: 2 },
+      })
+    );
+    expect(result.current.data?.pages.map((page) => page.data)).toEqual([
+      { data: [1, 2], total: 3 },
+      { data: [3], total: 3 },
+    ]);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it("should follow Link headers", async () => {
+    mockAxios.mockResolvedValueOnce(
+      response([1], { link: '<https://api.test/items?page=2>; rel="next"' })
+    );
+
+    const apiService = new ApiService("test");
+    const { result } = renderHook(
+      () =>
+        apiService.useInfiniteQuery({
+          key: ["items"],
+          url: "/items",
+          pagination: linkHeaderPagination(),
+        }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.hasNextPage).toBe(true);
+    });
+
+    mockAxios.mockResolvedValueOnce(response([2]));
+    await act(async () => {
+      await result.current.fetchNextPage();
+    });
+
+    await waitFor(() => {
+      expect(result.current.data?.pages).toHaveLength(2);
+    });
+
+    expect(mockAxios).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: "https://api.test/items?page=2" })
+    );
+    expect(result.current.hasNextPage).toBe(false);
+  });
+
+  it("should key paginated queries by page", async () => {
+    mockAxios.mockResolvedValue(response({ data: [], total: 0 }));
+
+    const apiService = new ApiService("test");
+    const { result } = renderHook(
+      () =>
+        apiService.usePaginatedQuery({
+          key: ["items"],
+          url: "/items",
+          pagination: offsetPagination({ limit: 5 }),
+          pageParam: 10,
+        }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    expect(queryClient.getQueryData(["items", 10])).toMatchObject({
+      pageParam: 10,
+      nextPageParam: undefined,
+      previousPageParam: 5,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { act, waitFor } from "@testing-library/react";
+import { ApiConfig } from "../config";
+import { createQueryKeys } from "../keys";
+import { ApiService } from "../services/ApiService";
+import { renderHookWithApiClient } from "../testing";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const keys = createQueryKeys("api", ["users", "posts"]);
+const api = new ApiService("api");
+
+describe("createQueryKeys", () => {
+  it("should build hierarchical keys per service and resource", () => {
+    expect(keys.all).toEqual(["api"]);
+    expect(keys.users.all).toEqual(["api", "users"]);
+    expect(keys.users.lists()).toEqual(["api", "users", "list"]);
+    expect(keys.users.list()).toEqual(["api", "users", "list"]);
+    expect(keys.users.list({ role: "admin" })).toEqual([
+      "api",
+      "users",
+      "list",
+      { role: "admin" },
+    ]);
+    expect(keys.posts.detail(7)).toEqual(["api", "posts", "detail", 7]);
+  });
+
+  it("should reserve 'all'", () => {
+    expect(() => createQueryKeys("api", ["all"])).toThrow("reserved");
+  });
+});
+
+describe("useMutation invalidation rules", () => {
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  const setup = () => {
+    const context = renderHookWithApiClient(
+      () => ({
+        admins: api.useQuery<User[]>({
+          key: keys.users.list({ role: "admin" }),
+          url: "/users",
+        }),
+        user: api.useQuery<User>({
+          key: keys.users.detail(1),
+          url: "/users/1",
+        }),
+        posts: api.useQuery<unknown[]>({
+          key: keys.posts.lists(),
+          url: "/posts",
+        }),
+        updateUser: api.useMutation<User, User>({
+          url: "/users/:id",
+          method: "put",
+          invalidate: [
+            keys.users.lists(),
+            { setData: (user) => keys.users.detail(user.id) },
+            { invalidate: (_user, variables) => keys.posts.list(variables.id) },
+          ],
+        }),
+      }),
+      { services: ["api"] }
+    );
+    context.mock
+      .onGet("/users")
+      .reply(200, [])
+      .onGet("/users/1")
+      .reply(200, { id: 1, name: "Ada" })
+      .onGet("/posts")
+      .reply(200, [])
+      .onPut("/users/:id")
+      .reply(({ data }) => ({ data }));
+    return context;
+  };
+
+  it("should set the detail and invalidate every matching key", async () => {
+    const { result, mock, queryClient } = setup();
+    await waitFor(() => expect(result.current.user.data).toBeDefined());
+    const fetches = mock.history.length;
+
+    await act(() =>
+      result.current.updateUser.mutateAsync({ id: 1, name: "Grace" })
+    );
+
+    expect(queryClient.getQueryData(keys.users.detail(1))).toEqual({
+      id: 1,
+      name: "Grace",
+    });
+    await waitFor(() =>
+      expect(
+        mock.history.slice(fetches).map(({ method, url }) => `${method} ${url}`)
+      ).toEqual(["put /users/1", "get /users"])
+    );
+    // keys.posts.list(1) doesn't prefix keys.posts.lists()
+    expect(queryClient.getQueryState(keys.posts.lists())?.isInvalidated).toBe(
+      false
+    );
+  });
+
+  it("should leave the cache alone when the mutation fails", async () => {
+    const { result, mock, queryClient } = setup();
+    await waitFor(() => expect(result.current.user.data).toBeDefined());
+    mock.onPut("/users/:id").reply(500, { message: "Down" });
+
+    await act(() =>
+      result.current.updateUser
+        .mutateAsync({ id: 1, name: "Grace" })
+        .catch(() => undefined)
+    );
+
+    expect(queryClient.getQueryData(keys.users.detail(1))).toEqual({
+      id: 1,
+      name: "Ada",
+    });
+    expect(
+      queryClient.getQueryState(keys.users.list({ role: "admin" }))
+        ?.isInvalidated
+    ).toBe(false);
+  });
+
+  it("should invalidate static keys after an optimistic mutation fails", async () => {
+    const { result, mock, queryClient } = renderHookWithApiClient(
+      () => ({
+        users: api.useQuery<User[]>({ key: keys.users.list(), url: "/users" }),
+        addUser: api.useMutation<User, User>({
+          url: "/users",
+          invalidate: [
+            { invalidate: keys.users.lists(), refetchType: "none" },
+            { setData: (user) => keys.users.detail(user.id) },
+          ],
+          optimistic: {
+            queryKeys: [keys.users.lists()],
+            updater: (old: User[] = [], user) => [...old, user],
+          },
+        }),
+      }),
+      { services: ["api"] }
+    );
+    mock.onGet("/users").reply(200, []).onPost("/users").reply(500, {});
+    await waitFor(() => expect(result.current.users.data).toEqual([]));
+
+    await act(() =>
+      result.current.addUser
+        .mutateAsync({ id: 2, name: "Linus" })
+        .catch(() => undefined)
+    );
+
+    expect(result.current.users.data).toEqual([]);
+    expect(queryClient.getQueryState(keys.users.list())?.isInvalidated).toBe(
+      true
+    );
+    expect(queryClient.getQueryData(keys.users.detail(2))).toBeUndefined();
+  });
+});
@@ -0,0 +1,242 @@
+import { AxiosError, AxiosRequestConfig } from "axios";
+import { ApiConfig } from "../config";
+import { ApiClientOptions, TokenManager } from "../types";
+
+// Adapter that rejects with 401 + the given body until the token is "fresh",
+// and answers the refresh endpoint with `refreshData`
+const createAdapter = (expiredBody: unknown, refreshData?: unknown) =>
+  jest.fn(async (config: AxiosRequestConfig) => {
+    if (config.url === "/auth/refresh") {
+      return {
+        data: refreshData,
+        status: 200,
+        statusText: "",
+        headers: {},
+        config,
+      };
+    }
+    const authorized =
+      (config.headers as Record<string, string>)?.Authorization ===
+      "Bearer fresh";
+    const status = authorized ? 200 : 401;
+    const response = {
+      data: authorized ? { ok: true } : expiredBody,
+      status,
+      statusText: "",
+      headers: {},
+      config,
+    };
+    if (!authorized) {
+      throw new AxiosError(
+        "Unauthorized",
+        undefined,
+        config as any,
+        {},
+        response as any
+      );
+    }
+    return response;
+  });
+
+// Bodies sent to the refresh endpoint
+const refreshRequests = (adapter: ReturnType<typeof createAdapter>) =>
+  adapter.mock.calls
+    .filter(([config]) => config.url === "/auth/refresh")
+    .map(([config]) => JSON.parse(config.data));
+
+const createTokenManager = (): TokenManager => {
+  let accessToken: string | null = "stale";
+  let refreshToken: string | null = "refresh-1";
+  return {
+    getAccessToken: () => accessToken,
+    setAccessToken: (token) => (accessToken = token),
+    getRefreshToken: () => refreshToken,
+    setRefreshToken: (token) => (refreshToken = token),
+    clearTokens: jest.fn(() => {
+      accessToken = null;
+      refreshToken = null;
+    }),
+  };
+};
+
+const createInstance = (
+  adapter: ReturnType<typeof createAdapter>,
+  options: Partial<ApiClientOptions>
+) => {
+  ApiConfig.initialize({
+    services: {
+      test: {
+        baseURL: "https://api.test",
+        refreshEndpoint: "/auth/refresh",
+        config: { adapter },
+      },
+    },
+    ...options,
+  });
+  return ApiConfig.getInstance().createAxiosInstance("test");
+};
+
+describe("token refresh strategy", () => {
+  it("should keep the default envelope behavior", async () => {
+    const adapter = createAdapter(
+      { code: "TOKEN_EXPIRED" },
+      { data: { accessToken: "fresh", refreshToken: "refresh-2" } }
+    );
+    const tokenManager = createTokenManager();
+    const instance = createInstance(adapter, { tokenManager });
+
+    await expect(instance.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(refreshRequests(adapter)).toEqual([{ refreshToken: "refresh-1" }]);
+    expect(tokenManager.getRefreshToken?.()).toBe("refresh-2");
+  });
+
+  it("should not refresh on other 401 codes by default", async () => {
+    const adapter = createAdapter({ code: "INVALID_CREDENTIALS" });
+    const instance = createInstance(adapter, {
+      tokenManager: createTokenManager(),
+    });
+
+    await expect(instance.get("/me")).rejects.toBeDefined();
+    expect(refreshRequests(adapter)).toEqual([]);
+  });
+
+  it("should use custom detection, request body and token extraction", async () => {
+    const adapter = createAdapter(
+      { error: "invalid_token" },
+      { access_token: "fresh" }
+    );
+    const instance = createInstance(adapter, {
+      tokenManager: createTokenManager(),
+      refreshStrategy: {
+        shouldRefresh: (error) =>
+          (error.response?.data as { error?: string })?.error ===
+          "invalid_token",
+        buildRequestBody: (refreshToken) => ({
+          grant_type: "refresh_token",
+          refresh_token: refreshToken,
+        }),
+        extractTokens: (response) => ({
+          accessToken: response.data.access_token,
+        }),
+      },
+    });
+
+    await expect(instance.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(refreshRequests(adapter)).toEqual([
+      { grant_type: "refresh_token", refresh_token: "refresh-1" },
+    ]);
+  });
+
+  it("should call a custom refresh function", async () => {
+    const refresh = jest.fn(async () => ({ accessToken: "fresh" }));
+    const instance = createInstance(createAdapter({ code: "TOKEN_EXPIRED" }), {
+      tokenManager: createTokenManager(),
+      refreshStrategy: { refresh },
+    });
+
+    await expect(instance.get("/me")).resolves.toMatchObject({ status: 200 });
+    expect(refresh).toHaveBeenCalledWith(
+      expect.objectContaining({ refreshToken: "refresh-1" })
+    );
+  });
+
+  it("should not refresh for a custom refresh's own 401", async () => {
+    const onUnauthorized = jest.fn();
+    // Uses `instance` from below, which exists by the time it is called
+    const refresh = jest.fn(async () => {
+      const res = await instance.post("/refresh", undefined, {
+        skipTokenRefresh: true,
+      });
+      return { accessToken: res.data.accessToken };
+    });
+    const adapter = createAdapter({ code: "TOKEN_EXPIRED" });
+    const instance = createInstance(adapter, {
+      tokenManager: createTokenManager(),
+      refreshStrategy: { refresh },
+      onUnauthorized,
+    });
+
+    await expect(instance.get("/me")).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(adapter.mock.calls.map(([config]) => config.url)).toEqual([
+      "/me",
+      "/refresh",
+    ]);
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it("should clear tokens when the refresh response has no access token", async () => {
+    const onUnauthorized = jest.fn();
+    const tokenManager = createTokenManager();
+    const instance = createInstance(
+      createAdapter({ code: "TOKEN_EXPIRED" }, {}),
+      {
+        tokenManager,
+        onUnauthorized,
+      }
+    );
+
+    await expect(instance.get("/me")).rejects.toBeDefined();
+    expect(tokenManager.clearTokens).toHaveBeenCalled();
+    expect(onUnauthorized).toHaveBeenCalled();
+  });
+
+  describe("proactive refresh", () => {
+    const jwt = (expiresInSeconds: number) =>
+      [
+        "header",
+        btoa(
+          JSON.stringify({
+            exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+          })
+        ),
+        "signature",
+      ].join(".");
+
+    const createProactiveInstance = (accessToken: string) => {
+      const tokenManager = {
+        ...createTokenManager(),
+        getAccessToken: jest.fn(),
+      };
+      let current: string | null = accessToken;
+      tokenManager.getAccessToken.mockImplementation(() => current);
+      tokenManager.setAccessToken = (token: string) => (current = token);
+
+      const refresh = jest.fn(
+        () =>
+          new Promise<{ accessToken: string }>((resolve) =>
+            setTimeout(() => resolve({ accessToken: "fresh" }), 10)
+          )
+      );
+      const adapter = createAdapter({ code: "TOKEN_EXPIRED" });
+      const instance = createInstance(adapter, {
+        tokenManager,
+        refreshStrategy: { refresh },
+        proactiveRefresh: { skew: 60 },
+      });
+      return { instance, refresh, adapter };
+    };
+
+    it("should refresh before sending when the token is about to expire", async () => {
+      const { instance, refresh, adapter } = createProactiveInstance(jwt(30));
+
+      await Promise.all([instance.get("/a"), instance.get("/b")]);
+
+      expect(refresh).toHaveBeenCalledTimes(1);
+      // Both requests waited for the refresh, so neither got a 401
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not refresh tokens that are still valid", async () => {
+      const { instance, refresh, adapter } = createProactiveInstance(jwt(3600));
+
+      await instance.get("/a");
+
+      // Sent with the current token, then refreshed after the 401
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(refresh).toHaveBeenCalledTimes(1);
+    });
+  });
+});
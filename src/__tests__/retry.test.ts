@@ -0,0 +1,112 @@
+import { AxiosError, AxiosRequestConfig } from "axios";
+import { ApiConfig } from "../config";
+import {
+  getRetryDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+} from "../config/retry";
+import { RetryPolicy } from "../types";
+
+// Adapter that answers with the given statuses in order
+const createAdapter = (statuses: number[], headers = {}) =>
+  jest.fn(async (config: AxiosRequestConfig) => {
+    const status = statuses.shift() ?? 200;
+    const response = {
+      data: { status },
+      status,
+      statusText: "",
+      headers,
+      config,
+    };
+    if (status >= 400) {
+      throw new AxiosError(
+        "Request failed",
+        undefined,
+        config as any,
+        {},
+        response as any
+      );
+    }
+    return response;
+  });
+
+const createInstance = (
+  adapter: ReturnType<typeof createAdapter>,
+  retry: RetryPolicy | boolean = { baseDelay: 0, jitter: false }
+) => {
+  ApiConfig.initialize({
+    services: {
+      test: { baseURL: "https://api.test", retry, config: { adapter } },
+    },
+  });
+  return ApiConfig.getInstance().createAxiosInstance("test");
+};
+
+describe("retry policy", () => {
+  it("should retry retryable statuses up to maxAttempts", async () => {
+    const adapter = createAdapter([503, 502, 503]);
+    const instance = createInstance(adapter);
+
+    await expect(instance.get("/users")).rejects.toMatchObject({
+      response: { status: 503 },
+    });
+    expect(adapter).toHaveBeenCalledTimes(3);
+  });
+
+  it("should resolve once a retry succeeds", async () => {
+    const adapter = createAdapter([500, 200]);
+    const instance = createInstance(adapter);
+
+    await expect(instance.get("/users")).resolves.toMatchObject({
+      status: 200,
+    });
+    expect(adapter).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry non-idempotent methods by default", async () => {
+    const adapter = createAdapter([503, 200]);
+    const instance = createInstance(adapter);
+
+    await expect(instance.post("/users", {})).rejects.toBeDefined();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("should let a request disable retries", async () => {
+    const adapter = createAdapter([503, 200]);
+    const instance = createInstance(adapter);
+
+    await expect(
+      instance.get("/users", { retry: false })
+    ).rejects.toBeDefined();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not retry when the service has no policy", async () => {
+    const adapter = createAdapter([503, 200]);
+    const instance = createInstance(adapter, false);
+
+    await expect(instance.get("/users")).rejects.toBeDefined();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("should give up when Retry-After exceeds maxDelay", async () => {
+    const adapter = createAdapter([429, 200], { "retry-after": "120" });
+    const instance = createInstance(adapter);
+
+    await expect(instance.get("/users")).rejects.toBeDefined();
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it("should compute backoff delays", () => {
+    const policy = resolveRetryPolicy(
+      { baseDelay: 100, jitter: false },
+      undefined
+    )!;
+
+    expect(getRetryDelay(policy, 1)).toBe(100);
+    expect(getRetryDelay(policy, 3)).toBe(400);
+    expect(getRetryDelay({ ...policy, maxDelay: 250 }, 3)).toBe(250);
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(resolveRetryPolicy(true, false)).toBeNull();
+  });
+});
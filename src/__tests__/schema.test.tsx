@@ -0,0 +1,189 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ApiService } from "../services/ApiService";
+import { createEndpoints, endpoint } from "../endpoints";
+import { SchemaValidationError } from "../errors";
+import { fromGuard, fromValibot, fromZod, Schema } from "../schema";
+
+// Mock axios
+jest.mock("axios");
+const mockAxios = require("axios");
+
+const mockNotificationManager = {
+  success: jest.fn(),
+  error: jest.fn(),
+};
+
+// Mock the ApiConfig
+jest.mock("../config", () => ({
+  ApiConfig: {
+    getInstance: jest.fn(() => ({
+      createAxiosInstance: jest.fn(() => mockAxios),
+      getNotificationManager: jest.fn(() => mockNotificationManager),
+    })),
+  },
+}));
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const isUser = (input: unknown): input is User =>
+  typeof (input as User)?.id === "number" &&
+  typeof (input as User)?.name === "string";
+
+const userSchema: Schema<User> = {
+  validate: (input) =>
+    isUser(input)
+      ? { success: true, data: input }
+      : { success: false, issues: [{ path: ["name"], message: "Required" }] },
+};
+
+describe("schema adapters", () => {
+  it("should map Zod issues", () => {
+    const schema = fromZod<User>({
+      safeParse: () => ({
+        success: false,
+        error: { issues: [{ path: ["profile", 0], message: "Expected" }] },
+      }),
+    });
+
+    expect(schema.validate({})).toEqual({
+      success: false,
+      issues: [{ path: ["profile", 0], message: "Expected" }],
+    });
+  });
+
+  it("should map Valibot issues and output", () => {
+    const safeParse = jest
+      .fn()
+      .mockReturnValueOnce({ success: true, output: { id: 1 } })
+      .mockReturnValueOnce({
+        success: false,
+        issues: [{ path: [{ key: "id" }], message: "Invalid type" }],
+      });
+    const schema = fromValibot("user-schema", safeParse);
+
+    expect(schema.validate({ id: "1" })).toEqual({
+      success: true,
+      data: { id: 1 },
+    });
+    expect(schema.validate({})).toEqual({
+      success: false,
+      issues: [{ path: ["id"], message: "Invalid type" }],
+    });
+    expect(safeParse).toHaveBeenCalledWith("user-schema", { id: "1" });
+  });
+
+  it("should wrap type guards", () => {
+    const schema = fromGuard(isUser, "Not a user");
+
+    expect(schema.validate({ id: 1, name: "Ada" }).success).toBe(true);
+    expect(schema.validate(null)).toEqual({
+      success: false,
+      issues: [{ path: [], message: "Not a user" }],
+    });
+  });
+});
+
+describe("response validation", () => {
+  let queryClient: QueryClient;
+  let wrapper: React.FC<{ children: React.ReactNode }>;
+  const service = new ApiService("test");
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    wrapper = ({ children }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    jest.clearAllMocks();
+  });
+
+  it("should return the validated data", async () => {
+    const schema: Schema<{ id: number }> = {
+      validate: (input) => ({
+        success: true,
+        data: { id: Number((input as { id: string }).id) },
+      }),
+    };
+    mockAxios.mockResolvedValue({ data: { id: "1" } });
+
+    await expect(service.get("/users/1", { schema })).resolves.toEqual({
+      id: 1,
+    });
+  });
+
+  it("should reject queries with a SchemaValidationError", async () => {
+    mockAxios.mockResolvedValue({ data: { id: 1 }, status: 200 });
+
+    const { result } = renderHook(
+      () =>
+        service.useQuery({ key: ["user"], url: "/user", schema: userSchema }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    const error = result.current.error as SchemaValidationError;
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.kind).toBe("schema");
+    expect(error.target).toBe("response");
+    expect(error.status).toBe(200);
+    expect(error.issues).toEqual([{ path: ["name"], message: "Required" }]);
+  });
+
+  it("should not send mutations whose variables fail validation", async () => {
+    const { result } = renderHook(
+      () =>
+        service.useMutation<User, User>({
+          url: "/users",
+          requestSchema: userSchema,
+        }),
+      { wrapper }
+    );
+
+    result.current.mutate({ id: 1 } as User);
+
+    await waitFor(() => {
+      expect(result.current.isError).toBe(true);
+    });
+
+    expect(mockAxios).not.toHaveBeenCalled();
+    expect((result.current.error as SchemaValidationError).target).toBe(
+      "request"
+    );
+    expect(mockNotificationManager.error).toHaveBeenCalledWith(
+      "Invalid request (name: Required)"
+    );
+  });
+
+  it("should validate endpoint responses with the definition's schema", async () => {
+    const users = createEndpoints(service, {
+      getUser: endpoint().query("/users/:id", { schema: userSchema }),
+    });
+    mockAxios.mockResolvedValue({ data: { id: 7, name: "Ada" } });
+
+    const { result } = renderHook(
+      () => users.useGetUser({ pathParams: { id: 7 } }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true);
+    });
+
+    // Typed as User through the schema
+    const name: string | undefined = result.current.data?.name;
+    expect(name).toBe("Ada");
+  });
+});
@@ -0,0 +1,251 @@
+import { act, waitFor } from "@testing-library/react";
+import { ApiConfig, createApiClient } from "../config";
+import { ApiService } from "../services/ApiService";
+import {
+  cookieSessionStore,
+  memorySessionStore,
+  SessionManager,
+} from "../session";
+import { createSessionChannel } from "../session/channel";
+import { useSession } from "../session/useSession";
+import {
+  createMockAdapter,
+  expectRequest,
+  MockResponse,
+  renderHookWithApiClient,
+  withMockAdapter,
+} from "../testing";
+
+// Delivers to the other instances of the same name, like across tabs
+class FakeBroadcastChannel {
+  static channels = new Set<FakeBroadcastChannel>();
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.add(this);
+  }
+
+  postMessage(data: unknown) {
+    const copy = JSON.parse(JSON.stringify(data));
+    FakeBroadcastChannel.channels.forEach((channel) => {
+      if (channel !== this && channel.name === this.name) {
+        Promise.resolve().then(() => channel.onmessage?.({ data: copy }));
+      }
+    });
+  }
+
+  close() {
+    FakeBroadcastChannel.channels.delete(this);
+  }
+}
+
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+    clear: () => items.clear(),
+    key: () => null,
+    get length() {
+      return items.size;
+    },
+  };
+};
+
+const flush = () => act(() => new Promise((resolve) => setTimeout(resolve)));
+
+// One tab: a session and a client using it
+const openTab = (
+  session = new SessionManager({ store: memorySessionStore() })
+) => {
+  const mock = createMockAdapter();
+  const onUnauthorized = jest.fn();
+  const client = createApiClient(
+    withMockAdapter(
+      {
+        services: {
+          api: { baseURL: "https://api.test", refreshEndpoint: "/refresh" },
+        },
+        session,
+        onUnauthorized,
+        logger: {
+          debug: jest.fn(),
+          info: jest.fn(),
+          warn: jest.fn(),
+          error: jest.fn(),
+        },
+      },
+      mock
+    )
+  );
+  mock
+    .onGet("/me")
+    .reply((request) =>
+      request.headers.Authorization === "Bearer fresh"
+        ? { data: { id: 1 } }
+        : { status: 401, data: { code: "TOKEN_EXPIRED" } }
+    );
+  return { session, mock, onUnauthorized, api: new ApiService("api", client) };
+};
+
+describe("SessionManager", () => {
+  const sessions: SessionManager[] = [];
+  const track = <T extends { session: SessionManager }>(tab: T) => {
+    sessions.push(tab.session);
+    return tab;
+  };
+
+  beforeAll(() => {
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterAll(() => {
+    delete (global as any).BroadcastChannel;
+  });
+
+  afterEach(() => {
+    sessions.splice(0).forEach((session) => session.destroy());
+    ApiConfig.reset();
+  });
+
+  it("should broadcast logins and logouts to the other tabs", async () => {
+    const first = track(openTab());
+    const second = track(openTab());
+
+    first.session.login({ accessToken: "a", refreshToken: "r" });
+    await flush();
+
+    expect(second.session.getStatus()).toBe("authenticated");
+    expect(second.session.getAccessToken()).toBe("a");
+    expect(second.session.getRefreshToken?.()).toBe("r");
+
+    second.session.logout();
+    await flush();
+
+    expect(first.session.getStatus()).toBe("anonymous");
+    expect(first.session.getAccessToken()).toBeNull();
+  });
+
+  it("should keep messages to itself outside a browser", async () => {
+    const tab = createSessionChannel("lp-api-client:session");
+    const server = createSessionChannel("lp-api-client:session", null);
+    const received = jest.fn();
+    tab.subscribe(received);
+    server.subscribe(received);
+
+    server.post({ type: "logout" });
+    await flush();
+
+    expect(received).not.toHaveBeenCalled();
+    expect(FakeBroadcastChannel.channels.size).toBe(1);
+    tab.close();
+    server.close();
+  });
+
+  it("should refresh once for all tabs", async () => {
+    let resolveRefresh!: (value: MockResponse) => void;
+    const refreshed = new Promise<MockResponse>((resolve) => {
+      resolveRefresh = resolve;
+    });
+    const first = track(openTab());
+    const second = track(openTab());
+    first.mock.onPost("/refresh").reply(() => refreshed);
+    first.session.login({ accessToken: "stale", refreshToken: "r" });
+    await flush();
+
+    const firstRequest = first.api.get("/me");
+    await waitFor(() => expectRequest(first.mock, { url: "/refresh" }));
+    await flush();
+    expect(second.session.getStatus()).toBe("refreshing");
+
+    const secondRequest = second.api.get("/me");
+    await flush();
+    resolveRefresh({
+      data: { data: { accessToken: "fresh", refreshToken: "r2" } },
+    });
+
+    await expect(firstRequest).resolves.toEqual({ id: 1 });
+    await expect(secondRequest).resolves.toEqual({ id: 1 });
+    expectRequest(first.mock, { url: "/refresh" }, { times: 1 });
+    expect(second.mock.getRequests({ url: "/refresh" })).toEqual([]);
+    expect(second.session.getRefreshToken?.()).toBe("r2");
+    expect(second.session.getStatus()).toBe("authenticated");
+  });
+
+  it("should expire every tab when the refresh fails", async () => {
+    const first = track(openTab());
+    const second = track(openTab());
+    first.mock.onPost("/refresh").reply(401, { message: "Refresh revoked" });
+    first.session.login({ accessToken: "stale", refreshToken: "r" });
+    await flush();
+
+    await expect(first.api.get("/me")).rejects.toMatchObject({ status: 401 });
+    await flush();
+
+    expect(first.session.getStatus()).toBe("expired");
+    expect(second.session.getStatus()).toBe("expired");
+    expect(second.session.getAccessToken()).toBeNull();
+    expect(first.onUnauthorized).toHaveBeenCalledTimes(1);
+    expect(second.onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it("should refresh through the cookie in cookie mode", async () => {
+    const storage = createStorage();
+    cookieSessionStore(storage).save({ accessToken: "before-reload" });
+
+    // After a reload only the marker is left, the access token is gone
+    const tab = track(
+      openTab(new SessionManager({ store: cookieSessionStore(storage) }))
+    );
+    expect(tab.session.getStatus()).toBe("authenticated");
+    expect(tab.session.getAccessToken()).toBeNull();
+    expect(tab.session.getRefreshToken).toBeUndefined();
+    tab.mock.onPost("/refresh").reply(200, { data: { accessToken: "fresh" } });
+
+    await expect(tab.api.get("/me")).resolves.toEqual({ id: 1 });
+    const [refresh] = expectRequest(tab.mock, {
+      method: "post",
+      url: "/refresh",
+    });
+    expect(refresh.data).toBeUndefined();
+  });
+});
+
+describe("useSession", () => {
+  beforeAll(() => {
+    (global as any).BroadcastChannel = FakeBroadcastChannel;
+  });
+
+  afterAll(() => {
+    delete (global as any).BroadcastChannel;
+  });
+
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should follow the session across tabs", async () => {
+    const session = new SessionManager({ store: memorySessionStore() });
+    const otherTab = new SessionManager({ store: memorySessionStore() });
+    const { result } = renderHookWithApiClient(() => useSession(), {
+      services: ["api"],
+      clientOptions: { session },
+    });
+    expect(result.current).toMatchObject({
+      status: "anonymous",
+      isAuthenticated: false,
+    });
+
+    act(() => result.current.login({ accessToken: "a" }));
+    expect(result.current.isAuthenticated).toBe(true);
+    await flush();
+    expect(otherTab.getAccessToken()).toBe("a");
+
+    otherTab.clearTokens();
+    await waitFor(() => expect(result.current.isExpired).toBe(true));
+
+    session.destroy();
+    otherTab.destroy();
+  });
+});
@@ -0,0 +1,194 @@
+import { hydrate } from "@tanstack/react-query";
+import { ApiService } from "../services/ApiService";
+import { createServerClient, prefetchAndDehydrate } from "../ssr";
+import { ServiceConfig } from "../types";
+import {
+  createMockAdapter,
+  createTestQueryClient,
+  expectRequest,
+  renderHookWithApiClient,
+  withMockAdapter,
+} from "../testing";
+
+const services: Record<string, ServiceConfig> = {
+  api: { baseURL: "https://api.test", refreshEndpoint: "/auth/refresh" },
+  cdn: { baseURL: "https://cdn.test", auth: { type: "none" } },
+  partner: {
+    baseURL: "https://partner.test",
+    auth: {
+      type: "bearer",
+      tokenManager: {
+        getAccessToken: () => "partner",
+        setAccessToken: jest.fn(),
+        clearTokens: jest.fn(),
+      },
+    },
+  },
+};
+const apiService = new ApiService("api");
+const cdnService = new ApiService("cdn");
+const partnerService = new ApiService("partner");
+
+// The page's server half: a client for this request only
+const serverClient = (
+  options: Omit<Parameters<typeof createServerClient>[0], "services"> = {}
+) => {
+  const mock = createMockAdapter();
+  const client = createServerClient(
+    withMockAdapter({ services, ...options }, mock)
+  );
+  return {
+    mock,
+    client,
+    api: apiService.withClient(client),
+    cdn: cdnService.withClient(client),
+    partner: partnerService.withClient(client),
+  };
+};
+
+describe("createServerClient", () => {
+  it("should forward the incoming request's cookies and auth", async () => {
+    const node = serverClient({
+      headers: {
+        cookie: "sid=1",
+        authorization: "Bearer forwarded",
+        host: "x",
+      },
+    });
+    const fetchHeaders = serverClient({
+      headers: new Headers({ Cookie: "sid=2" }),
+      tokens: { accessToken: "own" },
+    });
+    node.mock.onGet("/me").reply(200, {});
+    fetchHeaders.mock.onGet("/me").reply(200, {});
+
+    await node.api.get("/me");
+    await fetchHeaders.api.get("/me");
+
+    expect(node.mock.history[0].headers).toMatchObject({
+      cookie: "sid=1",
+      authorization: "Bearer forwarded",
+    });
+    expect(node.mock.history[0].headers.host).toBeUndefined();
+    expect(fetchHeaders.mock.history[0].headers).toMatchObject({
+      cookie: "sid=2",
+      Authorization: "Bearer own",
+    });
+    expect(fetchHeaders.mock.history[0].headers.authorization).toBeUndefined();
+  });
+
+  it("should not forward them to services with other credentials", async () => {
+    const { mock, cdn, partner } = serverClient({
+      headers: { cookie: "sid=1", authorization: "Bearer forwarded" },
+    });
+    mock.onGet("/asset").reply(200, {});
+    mock.onGet("/orders").reply(200, {});
+
+    await cdn.get("/asset");
+    await partner.get("/orders");
+
+    const [asset, orders] = mock.history;
+    expect(asset.headers.cookie).toBeUndefined();
+    expect(asset.headers.authorization).toBeUndefined();
+    expect(asset.headers.Authorization).toBeUndefined();
+    expect(orders.headers.cookie).toBeUndefined();
+    expect(orders.headers.authorization).toBeUndefined();
+    expect(orders.headers.Authorization).toBe("Bearer partner");
+  });
+
+  it("should refresh per request, through that request's cookie", async () => {
+    const onTokens = jest.fn();
+    const first = serverClient({
+      headers: { cookie: "refresh=a" },
+      tokens: { accessToken: "stale" },
+      onTokens,
+    });
+    const second = serverClient({
+      headers: { cookie: "refresh=b" },
+      tokens: { accessToken: "stale" },
+    });
+    [first, second].forEach(({ mock }) =>
+      mock
+        .onGet("/me")
+        .reply((request) =>
+          request.headers.Authorization?.toString().startsWith("Bearer fresh")
+            ? { data: { token: request.headers.Authorization } }
+            : { status: 401, data: { code: "TOKEN_EXPIRED" } }
+        )
+        .onPost("/auth/refresh")
+        .reply((request) => ({
+          data: { data: { accessToken: `fresh-${request.headers.cookie}` } },
+        }))
+    );
+
+    const results = await Promise.all([
+      first.api.get("/me"),
+      second.api.get("/me"),
+    ]);
+
+    expect(results).toEqual([
+      { token: "Bearer fresh-refresh=a" },
+      { token: "Bearer fresh-refresh=b" },
+    ]);
+    [first, second].forEach(({ mock }) =>
+      expectRequest(mock, { url: "/auth/refresh" }, { times: 1 })
+    );
+    expect(onTokens).toHaveBeenCalledTimes(1);
+    expect(onTokens).toHaveBeenCalledWith({
+      accessToken: "fresh-refresh=a",
+      refreshToken: null,
+    });
+  });
+
+  it("should not refresh without a cookie or refresh token", async () => {
+    const onUnauthorized = jest.fn();
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const { mock, api } = serverClient({
+      headers: {},
+      onUnauthorized,
+      logger,
+    });
+    mock
+      .onGet("/me")
+      .reply(401, { code: "ACCESS_TOKEN_NOT_PROVIDED" })
+      .onPost("/auth/refresh")
+      .reply(200, { data: { accessToken: "fresh" } });
+
+    await expect(api.get("/me")).rejects.toMatchObject({ status: 401 });
+
+    expect(mock.getRequests({ url: "/auth/refresh" })).toEqual([]);
+    expect(onUnauthorized).not.toHaveBeenCalled();
+    expect(logger.error).not.toHaveBeenCalled();
+  });
+});
+
+describe("prefetchAndDehydrate", () => {
+  it("should hydrate the page's queries without fetching again", async () => {
+    const { mock, client } = serverClient();
+    mock.onGet("/users").reply(200, [{ id: 1 }]);
+    mock.onGet("/broken").reply(500);
+
+    const state = await prefetchAndDehydrate(client, [
+      { service: apiService, key: ["users"], url: "/users" },
+      { service: apiService, key: ["broken"], url: "/broken" },
+    ]);
+
+    expect(state.queries.map((query) => query.queryKey)).toEqual([["users"]]);
+
+    // The browser half, with the dehydrated state from the page props
+    const queryClient = createTestQueryClient();
+    hydrate(queryClient, JSON.parse(JSON.stringify(state)));
+    const browser = renderHookWithApiClient(
+      () => apiService.useQuery({ key: ["users"], url: "/users" }),
+      { services: ["api"], queryClient }
+    );
+
+    expect(browser.result.current.data).toEqual([{ id: 1 }]);
+    expect(browser.mock.history).toHaveLength(0);
+  });
+});
@@ -0,0 +1,219 @@
+import { act, screen, waitFor } from "@testing-library/react";
+import { ApiConfig, createApiClient } from "../config";
+import { ApiService } from "../services/ApiService";
+import {
+  createMockAdapter,
+  expectRequest,
+  renderHookWithApiClient,
+  renderWithApiClient,
+  withMockAdapter,
+} from "../testing";
+
+describe("MockAdapter", () => {
+  const setup = () => {
+    const mock = createMockAdapter();
+    const client = createApiClient(
+      withMockAdapter(
+        {
+          services: {
+            api: { baseURL: "https://api.test" },
+            admin: { baseURL: "https://admin.test/v1" },
+          },
+        },
+        mock
+      )
+    );
+    return {
+      mock,
+      api: new ApiService("api", client),
+      admin: new ApiService("admin", client),
+    };
+  };
+
+  it("should match routes by method, path and service", async () => {
+    const { mock, api, admin } = setup();
+    mock
+      .onGet("/users/:id")
+      .reply(({ pathParams }) => ({ data: { id: Number(pathParams.id) } }))
+      .onGet("/users/:id", { service: "admin" })
+      .reply(200, { admin: true });
+
+    await expect(api.get("/users/7")).resolves.toEqual({ id: 7 });
+    await expect(admin.get("/users/7")).resolves.toEqual({ admin: true });
+  });
+
+  it("should only treat whole segments as route params", async () => {
+    const { mock, api } = setup();
+    mock
+      .onPost("/v1/items:batchGet")
+      .reply(200, { batch: true })
+      .onGet("/hosts/:host/ports")
+      .reply(({ pathParams }) => ({ data: pathParams }));
+
+    await expect(api.post("/v1/items:batchGet")).resolves.toEqual({
+      batch: true,
+    });
+    await expect(api.post("/v1/itemsAll")).rejects.toMatchObject({
+      status: 404,
+    });
+    await expect(api.get("/hosts/db:8080/ports")).resolves.toEqual({
+      host: "db:8080",
+    });
+  });
+
+  it("should match query params and body fields", async () => {
+    const { mock, api } = setup();
+    mock
+      .onGet("/todos")
+      .reply(200, ["all"])
+      .onGet("/todos", { params: { done: true } })
+      .reply(200, ["done"])
+      .onPost("/todos", { data: { title: "Conflict" } })
+      .reply(409, { message: "Already exists" });
+
+    await expect(
+      api.get("/todos", { params: { done: true } })
+    ).resolves.toEqual(["done"]);
+    await expect(api.get("/todos?page=2")).resolves.toEqual(["all"]);
+    await expect(
+      api.post("/todos", { title: "Conflict" })
+    ).rejects.toMatchObject({ status: 409, message: "Already exists" });
+  });
+
+  it("should use replyOnce routes a single time", async () => {
+    const { mock, api } = setup();
+    mock.onGet("/me").reply(200, "later").onGet("/me").replyOnce(200, "first");
+
+    await expect(api.get("/me")).resolves.toBe("first");
+    await expect(api.get("/me")).resolves.toBe("later");
+  });
+
+  it("should inject network errors, timeouts and 404s", async () => {
+    const { mock, api } = setup();
+    mock.onGet("/offline").networkError().onGet("/slow").timeout();
+
+    await expect(api.get("/offline")).rejects.toMatchObject({
+      kind: "network",
+    });
+    await expect(api.get("/slow")).rejects.toMatchObject({ kind: "timeout" });
+    await expect(api.get("/missing")).rejects.toMatchObject({
+      status: 404,
+      message: "No mock for GET /missing (api)",
+    });
+  });
+
+  it("should delay responses and honour cancellation", async () => {
+    const { mock, api } = setup();
+    mock.onGet("/slow").delay(1000).reply(200, "done");
+
+    const request = api.get("/slow");
+    request.cancel();
+
+    await expect(request).rejects.toMatchObject({ kind: "cancelled" });
+  });
+
+  it("should assert on recorded requests", async () => {
+    const { mock, api } = setup();
+    mock.onAny("/todos/:id").reply(204);
+
+    await api.put("/todos/1", { title: "Write tests", done: false });
+
+    const [request] = expectRequest(
+      mock,
+      { method: "put", url: "/todos/:id" },
+      { data: { done: false }, times: 1 }
+    );
+    expect(request.data).toEqual({ title: "Write tests", done: false });
+    expect(() =>
+      expectRequest(mock, { method: "delete", url: "/todos/:id" })
+    ).toThrow("Received:\n  PUT /todos/1 (api)");
+  });
+
+  it("should answer token refreshes too", async () => {
+    let accessToken = "stale";
+    const mock = createMockAdapter();
+    const client = createApiClient(
+      withMockAdapter(
+        {
+          services: {
+            api: {
+              baseURL: "https://api.test",
+              refreshEndpoint: "/auth/refresh",
+            },
+          },
+          tokenManager: {
+            getAccessToken: () => accessToken,
+            setAccessToken: (token) => (accessToken = token),
+            getRefreshToken: () => "refresh",
+            clearTokens: jest.fn(),
+          },
+        },
+        mock
+      )
+    );
+    mock
+      .onGet("/me")
+      .reply((request) =>
+        request.headers.Authorization === "Bearer fresh"
+          ? { data: { id: 1 } }
+          : { status: 401, data: { code: "TOKEN_EXPIRED" } }
+      )
+      .onPost("/auth/refresh")
+      .reply(200, { data: { accessToken: "fresh" } });
+
+    await expect(new ApiService("api", client).get("/me")).resolves.toEqual({
+      id: 1,
+    });
+    expectRequest(
+      mock,
+      { service: "api", method: "post", url: "/auth/refresh" },
+      { data: { refreshToken: "refresh" }, times: 1 }
+    );
+  });
+});
+
+describe("renderWithApiClient", () => {
+  const service = new ApiService("api");
+
+  afterEach(() => {
+    ApiConfig.reset();
+  });
+
+  it("should render components against the mock", async () => {
+    const Greeting = () => {
+      const { data } = service.useQuery<{ name: string }>({
+        key: ["me"],
+        url: "/me",
+      });
+      return <p>{data ? `Hello ${data.name}` : "Loading"}</p>;
+    };
+    const mock = createMockAdapter();
+    mock.onGet("/me").reply(200, { name: "Ada" });
+
+    renderWithApiClient(<Greeting />, { services: ["api"], mock });
+
+    expect(await screen.findByText("Hello Ada")).toBeInTheDocument();
+  });
+
+  it("should render hooks with the default client set up", async () => {
+    const { result, mock, client } = renderHookWithApiClient(
+      () => service.useMutation({ url: "/todos" }),
+      { services: ["api"] }
+    );
+    mock.onPost("/todos").reply(201, { id: 1 });
+
+    act(() => {
+      result.current.mutate({ title: "New" });
+    });
+
+    await waitFor(() => {
+      expect(result.current.data).toEqual({ id: 1 });
+    });
+    expect(ApiConfig.getInstance()).toBe(client);
+    expectRequest(
+      mock,
+      { method: "post", url: "/todos" },
+      { data: { title: "New" } }
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { createApiClient } from "../config";
+import { createTraceparent } from "../config/tracing";
+import { ApiService } from "../services/ApiService";
+import { createMockAdapter, withMockAdapter } from "../testing";
+import { ApiClientOptions, Logger, RequestEvent } from "../types";
+import { consoleLogger } from "../utils/logger";
+
+const createLogger = (): jest.Mocked<Logger> => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+});
+
+const setup = (options: Partial<ApiClientOptions> = {}) => {
+  const mock = createMockAdapter();
+  const events: RequestEvent[] = [];
+  const client = createApiClient(
+    withMockAdapter(
+      {
+        services: {
+          api: {
+            baseURL: "https://api.test",
+            refreshEndpoint: "/auth/refresh",
+            retry: { maxAttempts: 2, baseDelay: 0, jitter: false },
+          },
+        },
+        logger: createLogger(),
+        ...options,
+        tracing: { onEvent: (event) => events.push(event), ...options.tracing },
+      },
+      mock
+    )
+  );
+  return { mock, events, api: new ApiService("api", client) };
+};
+
+describe("request events", () => {
+  it("should report start, retries and the end once", async () => {
+    const { mock, events, api } = setup();
+    mock.onGet("/me").reply(200, {}).onGet("/me").replyOnce(503);
+
+    await api.get("/me");
+
+    expect(events.map((event) => event.type)).toEqual([
+      "start",
+      "retry",
+      "end",
+    ]);
+    expect(new Set(events.map((event) => event.requestId)).size).toBe(1);
+    expect(events[0]).toMatchObject({
+      service: "api",
+      method: "GET",
+      url: "/me",
+    });
+    expect(events[1]).toMatchObject({ attempt: 2, delay: 0, status: 503 });
+    expect(events[2]).toMatchObject({ status: 200, attempts: 2 });
+    expect(
+      events[2].type === "end" && events[2].duration
+    ).toBeGreaterThanOrEqual(0);
+  });
+
+  it("should report failures with their error", async () => {
+    const { mock, events, api } = setup();
+    mock.onPost("/todos").reply(422, { message: "Invalid" });
+
+    await expect(api.post("/todos", {})).rejects.toBeDefined();
+
+    expect(events[1]).toMatchObject({
+      type: "end",
+      status: 422,
+      attempts: 1,
+      error: expect.objectContaining({ kind: "validation" }),
+    });
+  });
+
+  it("should report time spent waiting for a token refresh", async () => {
+    let accessToken = "stale";
+    const { mock, events, api } = setup({
+      tokenManager: {
+        getAccessToken: () => accessToken,
+        setAccessToken: (token) => (accessToken = token),
+        getRefreshToken: () => "refresh",
+        clearTokens: jest.fn(),
+      },
+    });
+    mock
+      .onGet("/me")
+      .reply((request) =>
+        request.headers.Authorization === "Bearer fresh"
+          ? { data: {} }
+          : { status: 401, data: { code: "TOKEN_EXPIRED" } }
+      );
+    mock.onPost("/auth/refresh").reply(200, { data: { accessToken: "fresh" } });
+
+    await api.get("/me");
+
+    expect(events.map((event) => event.type)).toEqual([
+      "start",
+      "refresh",
+      "end",
+    ]);
+  });
+});
+
+describe("traceparent", () => {
+  const TRACEPARENT = /^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/;
+
+  it("should send a new trace per request", async () => {
+    const { mock, events, api } = setup({ tracing: { traceparent: true } });
+    mock.onGet("/me").reply(200, {});
+
+    await api.get("/me");
+
+    const header = mock.history[0].headers.traceparent;
+    expect(header).toMatch(TRACEPARENT);
+    expect(events[0].traceId).toBe(header.split("-")[1]);
+  });
+
+  it("should continue the caller's trace", async () => {
+    const parent = `00-${"a".repeat(32)}-${"b".repeat(16)}-01`;
+    const { mock, api } = setup({ tracing: { traceparent: () => parent } });
+    mock.onGet("/me").reply(200, {});
+
+    await api.get("/me");
+
+    const [, traceId, spanId] = mock.history[0].headers.traceparent.split("-");
+    expect(traceId).toBe("a".repeat(32));
+    expect(spanId).not.toBe("b".repeat(16));
+  });
+
+  it("should start a new trace for an invalid parent", () => {
+    expect(createTraceparent("garbage")).toMatch(TRACEPARENT);
+    expect(
+      createTraceparent(`00-${"0".repeat(32)}-${"b".repeat(16)}-01`)
+    ).not.toContain("0".repeat(32));
+  });
+});
+
+describe("logger", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should log refresh failures to the configured logger", async () => {
+    const logger = createLogger();
+    const { mock, api } = setup({
+      logger,
+      tokenManager: {
+        getAccessToken: () => "stale",
+        setAccessToken: jest.fn(),
+        getRefreshToken: () => "refresh",
+        clearTokens: jest.fn(),
+      },
+    });
+    mock.onGet("/me").reply(401, { code: "TOKEN_EXPIRED" });
+    mock.onPost("/auth/refresh").networkError();
+
+    await expect(api.get("/me")).rejects.toMatchObject({ status: 401 });
+
+    expect(logger.error).toHaveBeenCalledWith("Token refresh failed", {
+      error: expect.objectContaining({ code: "ERR_NETWORK" }),
+    });
+    expect(logger.debug).toHaveBeenCalledWith("→ GET /me", expect.anything());
+  });
+
+  it("should drop console messages below the level", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation();
+    const info = jest.spyOn(console, "info").mockImplementation();
+
+    const logger = consoleLogger("warn");
+    logger.info("Hidden");
+    logger.warn("Shown", { id: 1 });
+
+    expect(info).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("[api-client] Shown", { id: 1 });
+  });
+});
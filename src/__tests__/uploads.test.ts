@@ -0,0 +1,317 @@
+import { AxiosRequestConfig } from "axios";
+import { memoryStorage } from "../storage";
+import { ResumableUpload, UploadProtocol, UploadRequester } from "../uploads";
+
+const networkError = () =>
+  Object.assign(new Error("Network Error"), {
+    isAxiosError: true,
+    code: "ERR_NETWORK",
+  });
+
+const respond = (headers: Record<string, string> = {}) => ({
+  data: undefined,
+  status: 200,
+  statusText: "",
+  headers,
+  config: {} as any,
+});
+
+// In-memory tus server; PATCH calls listed in `failingPatches` fail
+const createTusServer = (failingPatches: number[] = []) => {
+  let offset = 0;
+  let patches = 0;
+
+  const request = jest.fn(async (config: AxiosRequestConfig) => {
+    const headers = config.headers as Record<string, string>;
+    switch (config.method) {
+      case "post":
+        return respond({ location: "/files/1" });
+      case "head":
+        return respond({ "upload-offset": String(offset) });
+      case "patch": {
+        patches += 1;
+        if (failingPatches.includes(patches)) throw networkError();
+        expect(headers["Upload-Offset"]).toBe(String(offset));
+        const size = (config.data as Blob).size;
+        config.onUploadProgress?.({ loaded: size } as any);
+        offset += size;
+        return respond({ "upload-offset": String(offset) });
+      }
+      default:
+        return respond();
+    }
+  });
+
+  return { request: request as unknown as UploadRequester, calls: request };
+};
+
+const file = () => new Blob(["abcdefghij"]); // 10 bytes
+const retry = { maxAttempts: 2, baseDelay: 0, jitter: false };
+
+describe("ResumableUpload", () => {
+  it("should upload tus chunks in order", async () => {
+    const server = createTusServer();
+    const storage = memoryStorage();
+    const upload = new ResumableUpload(server.request, {
+      file: file(),
+      url: "/files",
+      metadata: { filename: "notes.txt" },
+      chunkSize: 4,
+      storage,
+      fingerprint: "notes",
+    });
+    const percents: Array<number | undefined> = [];
+    upload.subscribe(({ progress }) => percents.push(progress.percent));
+
+    await upload.start();
+
+    const methods = server.calls.mock.calls.map(([config]) => config.method);
+    expect(methods).toEqual(["post", "patch", "patch", "patch"]);
+    expect(server.calls.mock.calls[0][0].headers).toMatchObject({
+      "Tus-Resumable": "1.0.0",
+      "Upload-Length": "10",
+      "Upload-Metadata": `filename ${btoa("notes.txt")}`,
+    });
+    expect(upload.getState().status).toBe("completed");
+    expect(percents[percents.length - 1]).toBe(100);
+    await expect(storage.getItem("upload:notes")).resolves.toBeUndefined();
+  });
+
+  it("should retry a failed chunk", async () => {
+    const server = createTusServer([2]);
+    const upload = new ResumableUpload(server.request, {
+      file: file(),
+      url: "/files",
+      chunkSize: 4,
+      retry,
+      storage: memoryStorage(),
+    });
+
+    await upload.start();
+
+    expect(upload.getState().status).toBe("completed");
+    // The retry asks the server for its offset first
+    const methods = server.calls.mock.calls.map(([config]) => config.method);
+    expect(methods).toEqual([
+      "post",
+      "patch",
+      "patch",
+      "head",
+      "patch",
+      "patch",
+    ]);
+  });
+
+  it("should resume from the server's offset", async () => {
+    const server = createTusServer([2]);
+    const storage = memoryStorage();
+    const options = {
+      file: file(),
+      url: "/files",
+      chunkSize: 4,
+      retry: { ...retry, maxAttempts: 1 },
+      storage,
+      fingerprint: "notes",
+    };
+
+    const first = new ResumableUpload(server.request, options);
+    await expect(first.start()).rejects.toBeDefined();
+    expect(first.getState().status).toBe("failed");
+    expect(first.getState().progress.loaded).toBe(4);
+
+    // e.g. after a reload
+    server.calls.mockClear();
+    const second = new ResumableUpload(server.request, options);
+    await second.start();
+
+    const methods = server.calls.mock.calls.map(([config]) => config.method);
+    expect(methods).toEqual(["head", "patch", "patch"]);
+    expect(second.getState().status).toBe("completed");
+  });
+
+  it("should start over when the stored upload has expired", async () => {
+    const server = createTusServer();
+    const request = jest.fn(async (config: AxiosRequestConfig) => {
+      if (config.url === "/files/expired") {
+        throw Object.assign(new Error("Not Found"), {
+          isAxiosError: true,
+          response: { status: 404 },
+        });
+      }
+      return server.request(config);
+    });
+    const storage = memoryStorage();
+    await storage.setItem("upload:notes", {
+      uploadUrl: "/files/expired",
+      chunkSize: 4,
+      completed: [],
+    });
+
+    const upload = new ResumableUpload(request as unknown as UploadRequester, {
+      file: file(),
+      url: "/files",
+      chunkSize: 4,
+      retry,
+      storage,
+      fingerprint: "notes",
+    });
+    await upload.start();
+
+    const calls = request.mock.calls.map(([config]) => config.method);
+    expect(calls).toEqual(["head", "post", "patch", "patch", "patch"]);
+    expect(upload.getState().status).toBe("completed");
+    await expect(storage.getItem("upload:notes")).resolves.toBeUndefined();
+  });
+
+  it("should pause and resume", async () => {
+    let release: () => void = () => undefined;
+    const protocol: UploadProtocol = {
+      create: async () => "/files/1",
+      uploadChunk: ({ signal }) =>
+        new Promise((resolve, reject) => {
+          release = () => resolve();
+          signal.addEventListener("abort", () =>
+            reject(
+              Object.assign(new Error("canceled"), {
+                isAxiosError: true,
+                code: "ERR_CANCELED",
+              })
+            )
+          );
+        }),
+    };
+    const upload = new ResumableUpload(jest.fn() as any, {
+      file: file(),
+      url: "/files",
+      chunkSize: 10,
+      protocol,
+      storage: memoryStorage(),
+    });
+
+    const started = upload.start();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    upload.pause();
+
+    await expect(started).rejects.toMatchObject({ code: "ERR_CANCELED" });
+    expect(upload.getState().status).toBe("paused");
+
+    const resumed = upload.resume();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    release();
+    await resumed;
+    expect(upload.getState().status).toBe("completed");
+  });
+
+  it("should let a resume wait for the paused chunk to settle", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const protocol: UploadProtocol = {
+      create: async () => "/files/1",
+      uploadChunk: ({ signal }) => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        return new Promise<void>((resolve, reject) => {
+          const settle = (error?: Error) => {
+            active -= 1;
+            if (error) reject(error);
+            else resolve();
+          };
+          setTimeout(() => !signal.aborted && settle(), 5);
+          // The aborted request takes a while to wind down
+          signal.addEventListener("abort", () =>
+            setTimeout(
+              () =>
+                settle(
+                  Object.assign(new Error("canceled"), {
+                    isAxiosError: true,
+                    code: "ERR_CANCELED",
+                  })
+                ),
+              10
+            )
+          );
+        });
+      },
+    };
+    const upload = new ResumableUpload(jest.fn() as any, {
+      file: file(),
+      url: "/files",
+      chunkSize: 10,
+      protocol,
+      storage: memoryStorage(),
+    });
+
+    const started = upload.start();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    upload.pause();
+    const resumed = upload.resume();
+
+    await expect(started).rejects.toMatchObject({ code: "ERR_CANCELED" });
+    await resumed;
+    expect(maxActive).toBe(1);
+    expect(upload.getState().status).toBe("completed");
+  });
+
+  it("should ignore a cancel once completed", async () => {
+    const server = createTusServer();
+    const upload = new ResumableUpload(server.request, {
+      file: file(),
+      url: "/files",
+      storage: memoryStorage(),
+    });
+
+    await upload.start();
+    await upload.cancel();
+
+    const methods = server.calls.mock.calls.map(([config]) => config.method);
+    expect(methods).not.toContain("delete");
+    expect(upload.getState().status).toBe("completed");
+  });
+
+  it("should send chunks in parallel and skip stored ones on resume", async () => {
+    let active = 0;
+    let maxActive = 0;
+    let failed = false;
+    const sent: number[] = [];
+    const protocol: UploadProtocol = {
+      create: async () => "/uploads/1",
+      uploadChunk: async ({ index }) => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+        if (index === 3 && !failed) {
+          failed = true;
+          throw Object.assign(new Error("Bad Request"), {
+            response: { status: 400 },
+          });
+        }
+        sent.push(index);
+      },
+      complete: async ({ uploadUrl }) => ({ uploadUrl }),
+    };
+    const storage = memoryStorage();
+    const options = {
+      file: file(),
+      url: "/uploads",
+      chunkSize: 2,
+      concurrency: 2,
+      protocol,
+      storage,
+      fingerprint: "parallel",
+    };
+
+    const first = new ResumableUpload(jest.fn() as any, options);
+    await expect(first.start()).rejects.toMatchObject({
+      response: { status: 400 },
+    });
+    expect(maxActive).toBe(2);
+
+    sent.length = 0;
+    const second = new ResumableUpload(jest.fn() as any, options);
+    await expect(second.start()).resolves.toEqual({ uploadUrl: "/uploads/1" });
+    // Chunks 0-2 were stored by the first attempt
+    expect(sent.filter((index) => index < 3)).toEqual([]);
+    expect(sent).toContain(3);
+  });
+});
@@ -0,0 +1,3 @@
+import { run } from "./index";
+
+process.exitCode = run(process.argv.slice(2));
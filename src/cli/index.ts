@@ -0,0 +1,103 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname } from "path";
+import { generateFromOpenApi, OpenApiDocument } from "../codegen/openapi";
+
+export const USAGE = `Usage: lp-api-client generate <spec.json> --service <name> [options]
+
+Generate typed hooks for the operations of an OpenAPI 3 document.
+
+Options:
+  --service <name>   Service in ApiClientOptions.services (required)
+  --out <file>       Write the module to a file instead of stdout
+  --import <module>  Module to import ApiService from
+                     (default "@learningpad/api-client")
+  --help             Show this message`;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split("=", 2);
+    if (inline !== undefined) {
+      flags[name] = inline;
+    } else if (argv[index + 1] && !argv[index + 1].startsWith("--")) {
+      flags[name] = argv[++index];
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { positional, flags };
+}
+
+function readDocument(file: string): OpenApiDocument {
+  if (/\.ya?ml$/i.test(file)) {
+    throw new Error(`${file}: YAML specs are not supported, convert to JSON`);
+  }
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Run the `lp-api-client` command and return its exit code.
+ */
+export function run(argv: string[], io: CliIO = defaultIO): number {
+  const { positional, flags } = parseArgs(argv);
+  const [command, spec] = positional;
+
+  if (flags.help || !command) {
+    io.stdout(`${USAGE}\n`);
+    return flags.help ? 0 : 1;
+  }
+  if (command !== "generate") {
+    io.stderr(`Unknown command '${command}'\n\n${USAGE}\n`);
+    return 1;
+  }
+  if (!spec || typeof flags.service !== "string") {
+    io.stderr(`Missing ${spec ? "--service" : "spec file"}\n\n${USAGE}\n`);
+    return 1;
+  }
+
+  try {
+    const output = generateFromOpenApi(readDocument(spec), {
+      service: flags.service,
+      importFrom: typeof flags.import === "string" ? flags.import : undefined,
+      source: basename(spec),
+    });
+
+    if (typeof flags.out === "string") {
+      mkdirSync(dirname(flags.out), { recursive: true });
+      writeFileSync(flags.out, output);
+      io.stderr(`Wrote ${flags.out}\n`);
+    } else {
+      io.stdout(output);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(
+      `lp-api-client: ${error instanceof Error ? error.message : error}\n`
+    );
+    return 1;
+  }
+}
@@ -0,0 +1,660 @@
+// The parts of an OpenAPI 3.0/3.1 document the generator reads
+export interface OpenApiSchema {
+  $ref?: string;
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  nullable?: boolean;
+  items?: OpenApiSchema;
+  properties?: Record<string, OpenApiSchema>;
+  required?: string[];
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+interface OpenApiContent {
+  [mediaType: string]: { schema?: OpenApiSchema } | undefined;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  parameters?: OpenApiParameter[];
+  requestBody?: { $ref?: string; required?: boolean; content?: OpenApiContent };
+  responses?: Record<
+    string,
+    { $ref?: string; description?: string; content?: OpenApiContent }
+  >;
+}
+
+export type OpenApiPathItem = {
+  parameters?: OpenApiParameter[];
+} & Partial<Record<HttpMethod, OpenApiOperation>>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    [section: string]: Record<string, unknown> | undefined;
+  };
+}
+
+export interface GenerateOptions {
+  service: string; // Name of the service in `ApiClientOptions.services`
+  importFrom?: string; // Default "@learningpad/api-client"
+  source?: string; // Spec file name, for the header comment
+}
+
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+const HTTP_METHODS: HttpMethod[] = ["get", "post", "put", "patch", "delete"];
+
+type OperationType = "PathParams" | "Params" | "Body" | "Response";
+
+interface Operation {
+  name: string;
+  types: Partial<Record<OperationType, string>>; // Declared type names
+  method: HttpMethod;
+  path: string; // With `:param` placeholders
+  source: OpenApiOperation;
+  pathParams: Array<{ name: string; type: string }>;
+  queryParams: OpenApiParameter[];
+  body?: { schema?: OpenApiSchema; required: boolean };
+  response: OpenApiSchema | "void" | undefined;
+}
+
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function camelCase(value: string): string {
+  const [first = "", ...rest] = words(value);
+  const name = first.toLowerCase() + rest.map(capitalize).join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "_";
+}
+
+function pascalCase(value: string): string {
+  return capitalize(camelCase(value));
+}
+
+function schemaRef(name: string): string {
+  return `#/components/schemas/${name
+    .replace(/~/g, "~0")
+    .replace(/\//g, "~1")}`;
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(indent: string, ...lines: Array<string | undefined>) {
+  const text = lines
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .replace(/\*\//g, "*\\/")
+    .trim();
+  return text ? `${indent}/** ${text} */\n` : "";
+}
+
+// Whether a `|` or `&` sits outside any braces, brackets or parentheses
+function needsParens(type: string): boolean {
+  let depth = 0;
+  for (const char of type) {
+    if ("{[(<".includes(char)) depth++;
+    else if ("}])>".includes(char)) depth--;
+    else if (depth === 0 && (char === "|" || char === "&")) return true;
+  }
+  return false;
+}
+
+function wrap(type: string): string {
+  return needsParens(type) ? `(${type})` : type;
+}
+
+function isJson(mediaType: string): boolean {
+  return /^application\/(.+\+)?json/.test(mediaType) || mediaType === "*/*";
+}
+
+function pickContent(content: OpenApiContent | undefined) {
+  if (!content) return undefined;
+  const mediaTypes = Object.keys(content);
+  const mediaType =
+    mediaTypes.find(isJson) ??
+    mediaTypes.find((type) => type.startsWith("multipart/")) ??
+    mediaTypes[0];
+  return mediaType ? content[mediaType] : undefined;
+}
+
+class OpenApiGenerator {
+  private readonly document: OpenApiDocument;
+  private readonly options: GenerateOptions;
+  private schemaNames = new Map<string, string>(); // $ref -> type name
+  private typeNames = new Set<string>();
+
+  constructor(document: OpenApiDocument, options: GenerateOptions) {
+    this.document = document;
+    this.options = options;
+  }
+
+  public generate(): string {
+    if (!/^3\./.test(String(this.document.openapi ?? ""))) {
+      throw new Error(
+        "Only OpenAPI 3 documents are supported (missing 'openapi: 3.x')"
+      );
+    }
+
+    const schemas = Object.keys(this.document.components?.schemas ?? {}).sort();
+    schemas.forEach((name) =>
+      this.schemaNames.set(
+        schemaRef(name),
+        this.uniqueTypeName(pascalCase(name))
+      )
+    );
+    const operations = this.collectOperations();
+
+    const importFrom = this.options.importFrom ?? "@learningpad/api-client";
+    const serviceName = camelCase(this.options.service);
+    const hasQueries = operations.some(({ method }) => method === "get");
+    const hasMutations = operations.some(({ method }) => method !== "get");
+    const propsTypes = [
+      hasMutations && "UseMutationApiProps",
+      hasQueries && "UseQueryApiProps",
+    ].filter(Boolean);
+    const { title, version } = this.document.info ?? {};
+
+    const sections = [
+      [
+        `// Generated by lp-api-client${
+          this.options.source ? ` from ${this.options.source}` : ""
+        }. Do not edit.`,
+        ...(title ? [`// ${title}${version ? ` ${version}` : ""}`] : []),
+        "/* eslint-disable */",
+        `import { ApiService } from ${JSON.stringify(importFrom)};`,
+        ...(propsTypes.length
+          ? [
+              `import type { ${propsTypes.join(", ")} } from ${JSON.stringify(
+                importFrom
+              )};`,
+            ]
+          : []),
+      ].join("\n"),
+      ...schemas.map((name) => this.schemaDeclaration(name)),
+      ...operations.flatMap((operation) => this.operationTypes(operation)),
+      [
+        ...(hasQueries
+          ? [
+              "type QueryArgs<TData> = Omit<",
+              "  UseQueryApiProps<TData>,",
+              '  "key" | "url" | "method" | "pathParams" | "params"',
+              ">;",
+            ]
+          : []),
+        ...(hasMutations
+          ? [
+              "type MutationArgs<TData, TBody> = Omit<",
+              "  UseMutationApiProps<TData, TBody>,",
+              '  "url" | "method" | "pathParams"',
+              ">;",
+            ]
+          : []),
+      ].join("\n"),
+      `export const ${serviceName}Service = new ApiService(${JSON.stringify(
+        this.options.service
+      )});`,
+      this.keyFactory(serviceName, operations),
+      ...operations.map((operation) =>
+        operation.method === "get"
+          ? this.queryHook(serviceName, operation)
+          : this.mutationHook(serviceName, operation)
+      ),
+    ];
+
+    return `${sections.filter(Boolean).join("\n\n")}\n`;
+  }
+
+  private uniqueTypeName(base: string): string {
+    let name = base;
+    for (let index = 2; this.typeNames.has(name); index++) {
+      name = `${base}${index}`;
+    }
+    this.typeNames.add(name);
+    return name;
+  }
+
+  private resolve<T extends { $ref?: string }>(
+    value: T,
+    seen: string[] = []
+  ): T {
+    const ref = value.$ref;
+    if (!ref) return value;
+    if (!ref.startsWith("#/")) {
+      throw new Error(`Only local $refs are supported, got '${ref}'`);
+    }
+    if (seen.includes(ref)) {
+      throw new Error(`Circular $ref '${ref}'`);
+    }
+
+    let target: unknown = this.document;
+    ref
+      .slice(2)
+      .split("/")
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .forEach((part) => {
+        target = (target as Record<string, unknown> | undefined)?.[part];
+      });
+    if (!target || typeof target !== "object") {
+      throw new Error(`Cannot resolve $ref '${ref}'`);
+    }
+    return this.resolve(target as T, [...seen, ref]);
+  }
+
+  private typeOf(schema: OpenApiSchema | undefined, indent = ""): string {
+    if (!schema) return "unknown";
+    if (schema.$ref) {
+      return (
+        this.schemaNames.get(schema.$ref) ??
+        this.typeOf(this.resolve(schema), indent)
+      );
+    }
+
+    const type = this.baseType(schema, indent);
+    return schema.nullable && type !== "unknown" ? `${type} | null` : type;
+  }
+
+  private baseType(schema: OpenApiSchema, indent: string): string {
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    if (schema.allOf) {
+      return schema.allOf
+        .map((part) => wrap(this.typeOf(part, indent)))
+        .join(" & ");
+    }
+    const union = schema.oneOf ?? schema.anyOf;
+    if (union) {
+      return union.map((part) => this.typeOf(part, indent)).join(" | ");
+    }
+    if (Array.isArray(schema.type)) {
+      return schema.type
+        .map((type) => this.baseType({ ...schema, type }, indent))
+        .join(" | ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return schema.format === "binary" ? "Blob" : "string";
+      case "integer":
+      case "number":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array":
+        return `${wrap(this.typeOf(schema.items, indent))}[]`;
+      case "object":
+        return this.objectType(schema, indent);
+      default:
+        return schema.properties || schema.additionalProperties
+          ? this.objectType(schema, indent)
+          : "unknown";
+    }
+  }
+
+  private objectType(schema: OpenApiSchema, indent: string): string {
+    const inner = `${indent}  `;
+    const required = new Set(schema.required ?? []);
+    const properties = Object.entries(schema.properties ?? {});
+    const lines = properties.map(
+      ([name, property]) =>
+        `${docComment(inner, property.description)}${inner}${propertyKey(
+          name
+        )}${required.has(name) ? "" : "?"}: ${this.typeOf(property, inner)};`
+    );
+
+    const { additionalProperties } = schema;
+    if (additionalProperties) {
+      // Declared properties must fit the index signature
+      const valueType =
+        properties.length || additionalProperties === true
+          ? "unknown"
+          : this.typeOf(additionalProperties, inner);
+      lines.push(`${inner}[key: string]: ${valueType};`);
+    }
+
+    return lines.length
+      ? `{\n${lines.join("\n")}\n${indent}}`
+      : "Record<string, unknown>";
+  }
+
+  private schemaDeclaration(name: string): string {
+    const schema = this.document.components?.schemas?.[name] ?? {};
+    const typeName = this.schemaNames.get(schemaRef(name));
+    const type = this.typeOf(schema);
+    const declaration = type.startsWith("{\n")
+      ? `export interface ${typeName} ${type}`
+      : `export type ${typeName} = ${type};`;
+    return `${docComment("", schema.description)}${declaration}`;
+  }
+
+  private collectOperations(): Operation[] {
+    const operations: Operation[] = [];
+    const names = new Set(["all"]); // Taken by the key factory
+
+    Object.entries(this.document.paths ?? {}).forEach(([path, pathItem]) => {
+      HTTP_METHODS.forEach((method) => {
+        const source = pathItem[method];
+        if (!source) return;
+
+        const baseName = camelCase(
+          source.operationId ??
+            `${method} ${path.replace(/\{([^}]+)\}/g, "by $1")}`
+        );
+        let name = baseName;
+        for (let index = 2; names.has(name); index++) {
+          name = `${baseName}${index}`;
+        }
+        names.add(name);
+
+        // Operation parameters override path-level ones of the same name
+        const parameters = new Map<string, OpenApiParameter>();
+        [...(pathItem.parameters ?? []), ...(source.parameters ?? [])]
+          .map((parameter) => this.resolve(parameter))
+          .forEach((parameter) =>
+            parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+          );
+        const pathParams = Array.from(parameters.values())
+          .filter((parameter) => parameter.in === "path")
+          .map((parameter) => ({
+            name: camelCase(parameter.name),
+            type: this.pathParamType(parameter.schema),
+          }));
+
+        const requestBody = source.requestBody
+          ? this.resolve(source.requestBody)
+          : undefined;
+
+        operations.push({
+          name,
+          types: {},
+          method,
+          path: path.replace(
+            /\{([^}]+)\}/g,
+            (_match, param: string) => `:${camelCase(param)}`
+          ),
+          source,
+          pathParams,
+          queryParams: Array.from(parameters.values()).filter(
+            (parameter) => parameter.in === "query"
+          ),
+          body:
+            requestBody && method !== "get"
+              ? {
+                  schema: pickContent(requestBody.content)?.schema,
+                  required: requestBody.required ?? false,
+                }
+              : undefined,
+          response: this.successResponse(source),
+        });
+      });
+    });
+
+    // Named after sorting, so a clash with a schema resolves the same way.
+    // Code-unit order like the schemas, not the machine's locale
+    return operations
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+      .map((operation) => {
+        const types: OperationType[] = [
+          ...(operation.pathParams.length ? ["PathParams" as const] : []),
+          ...(operation.queryParams.length ? ["Params" as const] : []),
+          ...(operation.method !== "get" ? ["Body" as const] : []),
+          "Response",
+        ];
+        types.forEach((type) => {
+          operation.types[type] = this.uniqueTypeName(
+            `${pascalCase(operation.name)}${type}`
+          );
+        });
+        return operation;
+      });
+  }
+
+  private pathParamType(schema: OpenApiSchema | undefined): string {
+    const resolved = schema ? this.resolve(schema) : undefined;
+    if (resolved?.type === "integer" || resolved?.type === "number") {
+      return "number";
+    }
+    if (resolved?.enum?.every((value) => typeof value === "string")) {
+      return this.typeOf(resolved);
+    }
+    return "string";
+  }
+
+  private successResponse(
+    operation: OpenApiOperation
+  ): OpenApiSchema | "void" | undefined {
+    const responses = operation.responses ?? {};
+    const status = Object.keys(responses)
+      .filter((code) => /^2([0-9]{2}|XX)$/i.test(code))
+      .sort()[0];
+    if (!status) return undefined;
+
+    const response = this.resolve(responses[status]);
+    if (!response.content || status === "204") return "void";
+    return pickContent(response.content)?.schema;
+  }
+
+  private typeName(operation: Operation, type: OperationType): string {
+    return operation.types[type] ?? "never";
+  }
+
+  private operationTypes(operation: Operation): string[] {
+    const declarations: string[] = [];
+
+    if (operation.pathParams.length) {
+      const fields = operation.pathParams
+        .map(({ name, type }) => `  ${propertyKey(name)}: ${type};`)
+        .join("\n");
+      declarations.push(
+        `export type ${this.typeName(
+          operation,
+          "PathParams"
+        )} = {\n${fields}\n};`
+      );
+    }
+    if (operation.queryParams.length) {
+      const fields = operation.queryParams
+        .map(
+          (parameter) =>
+            `${docComment("  ", parameter.description)}  ${propertyKey(
+              parameter.name
+            )}${parameter.required ? "" : "?"}: ${this.typeOf(
+              parameter.schema,
+              "  "
+            )};`
+        )
+        .join("\n");
+      // A type alias, so it is assignable to the untyped `params` prop
+      declarations.push(
+        `export type ${this.typeName(operation, "Params")} = {\n${fields}\n};`
+      );
+    }
+    if (operation.method !== "get") {
+      const body = operation.body ? this.typeOf(operation.body.schema) : "void";
+      declarations.push(
+        `export type ${this.typeName(operation, "Body")} = ${
+          operation.body && !operation.body.required ? `${body} | void` : body
+        };`
+      );
+    }
+    declarations.push(
+      `export type ${this.typeName(operation, "Response")} = ${
+        operation.response === "void" ? "void" : this.typeOf(operation.response)
+      };`
+    );
+
+    return declarations;
+  }
+
+  private keyArgs(operation: Operation): string[] {
+    return [
+      ...(operation.pathParams.length
+        ? [`pathParams: ${this.typeName(operation, "PathParams")}`]
+        : []),
+      ...(operation.queryParams.length
+        ? [`params?: ${this.typeName(operation, "Params")}`]
+        : []),
+    ];
+  }
+
+  private keyFactory(serviceName: string, operations: Operation[]): string {
+    const service = JSON.stringify(this.options.service);
+    const entries = operations
+      .filter(({ method }) => method === "get")
+      .map((operation) => {
+        const parts = [
+          service,
+          JSON.stringify(operation.name),
+          ...(operation.pathParams.length ? ["pathParams"] : []),
+          ...(operation.queryParams.length
+            ? ["...(params ? [params] : [])"]
+            : []),
+        ];
+        return `  ${operation.name}: (${this.keyArgs(operation).join(
+          ", "
+        )}): unknown[] => [${parts.join(", ")}],`;
+      });
+
+    return [
+      `export const ${serviceName}Keys = {`,
+      `  all: [${service}] as const,`,
+      ...entries,
+      "};",
+    ].join("\n");
+  }
+
+  private hookArgs(operation: Operation, props: string): string {
+    const { pathParams, queryParams } = operation;
+    const paramsRequired = queryParams.some((parameter) => parameter.required);
+    const required = pathParams.length > 0 || paramsRequired;
+    const fields = [
+      ...(pathParams.length
+        ? [`pathParams: ${this.typeName(operation, "PathParams")}`]
+        : []),
+      ...(queryParams.length
+        ? [
+            `params${paramsRequired ? "" : "?"}: ${this.typeName(
+              operation,
+              "Params"
+            )}`,
+          ]
+        : []),
+    ];
+    const type = fields.length ? `{ ${fields.join("; ")} } & ${props}` : props;
+    return `args: ${type}${required ? "" : " = {}"}`;
+  }
+
+  private hookDoc(operation: Operation): string {
+    const { summary, description, deprecated } = operation.source;
+    return [
+      docComment("", summary ?? description),
+      deprecated ? "/** @deprecated */\n" : "",
+    ].join("");
+  }
+
+  private pickArgs(names: string[]): string[] {
+    return names.length
+      ? [`  const { ${[...names, "...props"].join(", ")} } = args;`]
+      : [];
+  }
+
+  private queryHook(serviceName: string, operation: Operation): string {
+    const response = this.typeName(operation, "Response");
+    const keyArgs = [
+      ...(operation.pathParams.length ? ["pathParams"] : []),
+      ...(operation.queryParams.length ? ["params"] : []),
+    ];
+
+    return [
+      `${this.hookDoc(operation)}export function use${pascalCase(
+        operation.name
+      )}(${this.hookArgs(operation, `QueryArgs<${response}>`)}) {`,
+      ...this.pickArgs(keyArgs),
+      `  return ${serviceName}Service.useQuery<${response}>({`,
+      `    ...${keyArgs.length ? "props" : "args"},`,
+      `    key: ${serviceName}Keys.${operation.name}(${keyArgs.join(", ")}),`,
+      `    url: ${JSON.stringify(operation.path)},`,
+      ...keyArgs.map((arg) => `    ${arg},`),
+      '    method: "get",',
+      "  });",
+      "}",
+    ].join("\n");
+  }
+
+  private mutationHook(serviceName: string, operation: Operation): string {
+    const types = `${this.typeName(operation, "Response")}, ${this.typeName(
+      operation,
+      "Body"
+    )}`;
+    const hasPathParams = operation.pathParams.length > 0;
+    const hasParams = operation.queryParams.length > 0;
+    const picked = [
+      ...(hasPathParams ? ["pathParams"] : []),
+      ...(hasParams ? ["params"] : []),
+    ];
+
+    return [
+      `${this.hookDoc(operation)}export function use${pascalCase(
+        operation.name
+      )}(${this.hookArgs(operation, `MutationArgs<${types}>`)}) {`,
+      ...this.pickArgs(picked),
+      `  return ${serviceName}Service.useMutation<${types}>({`,
+      `    ...${picked.length ? "props" : "args"},`,
+      `    url: ${JSON.stringify(operation.path)},`,
+      ...(hasPathParams ? ["    pathParams,"] : []),
+      ...(hasParams ? ["    config: { ...props.config, params },"] : []),
+      `    method: ${JSON.stringify(operation.method)},`,
+      "  });",
+      "}",
+    ].join("\n");
+  }
+}
+
+/**
+ * Generate a module of typed hooks for the operations of an OpenAPI 3
+ * document: request and response types, a query key factory and one
+ * `useX` hook per operation, bound to `options.service`. The output
+ * only depends on the document, so it can be checked in.
+ */
+export function generateFromOpenApi(
+  document: OpenApiDocument,
+  options: GenerateOptions
+): string {
+  return new OpenApiGenerator(document, options).generate();
+}
@@ -0,0 +1,61 @@
+import { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { AuthCredential, AuthScheme, TokenManager } from "../types";
+import { encodeBase64 } from "../utils/base64";
+
+function read(credential: AuthCredential): string | null {
+  return typeof credential === "function" ? credential() : credential;
+}
+
+/**
+ * Set the credentials of every scheme but `custom`, which signs the final
+ * request in `attachRequestSigner`. `tokenManager` is the one the service
+ * uses for `bearer`.
+ */
+export function applyAuth(
+  config: InternalAxiosRequestConfig,
+  auth: AuthScheme | undefined,
+  tokenManager: TokenManager | undefined
+): void {
+  if (!auth || auth.type === "bearer") {
+    const accessToken = tokenManager?.getAccessToken();
+    if (accessToken) {
+      config.headers.Authorization = `Bearer ${accessToken}`;
+    }
+    return;
+  }
+
+  switch (auth.type) {
+    case "apiKey": {
+      const value = read(auth.key);
+      if (!value) break;
+      if (auth.query) config.params = { ...config.params, [auth.query]: value };
+      else config.headers[auth.header ?? "X-API-Key"] = value;
+      break;
+    }
+    case "basic": {
+      const username = read(auth.username);
+      if (username !== null) {
+        const password = read(auth.password) ?? "";
+        config.headers.Authorization = `Basic ${encodeBase64(
+          `${username}:${password}`
+        )}`;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Run a `custom` scheme's signer. Registered before the request
+ * middleware, so it runs after them and signs what is actually sent.
+ */
+export function attachRequestSigner(
+  axiosInstance: AxiosInstance,
+  auth: AuthScheme | undefined
+): void {
+  if (auth?.type !== "custom") return;
+
+  axiosInstance.interceptors.request.use(
+    async (config) => (await auth.sign(config)) ?? config
+  );
+}
@@ -0,0 +1,131 @@
+import { AxiosError, AxiosInstance, AxiosResponse } from "axios";
+import { EnvelopeConfig, EnvelopeField, ErrorExtractor } from "../types";
+
+// The `ApiError` shape: { success, message, data, error }
+export const DEFAULT_ENVELOPE: Required<EnvelopeConfig> = {
+  data: "data",
+  message: "message",
+  success: "success",
+  error: "error",
+  meta: "meta",
+};
+
+/**
+ * Merge a service's `envelope` option with the defaults.
+ * Returns null when the service doesn't use an envelope.
+ */
+export function resolveEnvelope(
+  envelope: EnvelopeConfig | boolean | undefined
+): Required<EnvelopeConfig> | null {
+  if (!envelope) return null;
+  return {
+    ...DEFAULT_ENVELOPE,
+    ...(typeof envelope === "object" ? envelope : {}),
+  };
+}
+
+// Reads a key, a dotted path ("result.items") or calls the reader
+function readField<T>(body: unknown, field: EnvelopeField<T>): T | undefined {
+  if (typeof field === "function") return field(body);
+  return field.split(".").reduce<unknown>((value, key) => {
+    return value && typeof value === "object"
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  }, body) as T | undefined;
+}
+
+// The envelope's `error` is either a message or `{ message, code }`
+function readError(
+  body: unknown,
+  envelope: Required<EnvelopeConfig>
+): { message?: string; code?: string } {
+  const error = readField(body, envelope.error);
+  if (typeof error === "string") return { message: error };
+
+  const nested = error as { message?: unknown; code?: unknown } | undefined;
+  return {
+    message: typeof nested?.message === "string" ? nested.message : undefined,
+    code: typeof nested?.code === "string" ? nested.code : undefined,
+  };
+}
+
+/**
+ * Replace `response.data` with the envelope's payload and keep the rest of
+ * the body on `response.envelope`.
+ */
+export function unwrapEnvelope<T = unknown>(
+  response: AxiosResponse,
+  envelope: Required<EnvelopeConfig>
+): AxiosResponse<T> {
+  const body = response.data;
+  // Only JSON objects carry an envelope, not arrays, Blobs or text
+  if (Object.prototype.toString.call(body) !== "[object Object]") {
+    return response;
+  }
+
+  const message = readField(body, envelope.message);
+  return {
+    ...response,
+    data: readField(body, envelope.data) as T,
+    envelope: {
+      body,
+      message: typeof message === "string" ? message : undefined,
+      success: readField(body, envelope.success),
+      error: readField(body, envelope.error),
+      meta: readField(body, envelope.meta),
+    },
+  };
+}
+
+/**
+ * Error extractor that reads the message and code from the service's
+ * envelope; the configured `errorExtractor` still takes precedence.
+ */
+export function getEnvelopeErrorExtractor(
+  envelope: Required<EnvelopeConfig>,
+  errorExtractor?: ErrorExtractor
+): ErrorExtractor {
+  return (error) => {
+    const body = error.response?.data;
+    const message = readField(body, envelope.message);
+    const fromError = readError(body, envelope);
+
+    return {
+      message:
+        (typeof message === "string" ? message : undefined) ||
+        fromError.message,
+      code: fromError.code,
+      ...errorExtractor?.(error),
+    };
+  };
+}
+
+/**
+ * Unwrap successful responses, and reject the ones whose envelope reports
+ * `success: false` despite a 2xx status.
+ */
+export function attachEnvelopeInterceptor(
+  axiosInstance: AxiosInstance,
+  envelope: Required<EnvelopeConfig>
+): void {
+  axiosInstance.interceptors.response.use((response: AxiosResponse) => {
+    // Retried requests come back through the chain already unwrapped
+    if (response.envelope) return response;
+
+    const unwrapped = unwrapEnvelope(response, envelope);
+    if (unwrapped.envelope?.success === false) {
+      return Promise.reject(
+        new AxiosError(
+          unwrapped.envelope.message ||
+            readError(response.data, envelope).message ||
+            "Request failed",
+          AxiosError.ERR_BAD_RESPONSE,
+          response.config,
+          response.request,
+          response
+        )
+      );
+    }
+    return unwrapped;
+  });
+}
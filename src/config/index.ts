@@ -3,19 +3,67 @@ import axios, {
   AxiosResponse,
   InternalAxiosRequestConfig,
 } from "axios";
-import { ApiClientOptions, NotificationManager, TokenManager } from "../types";
+import {
+  ApiClientOptions,
+  AuthScheme,
+  Logger,
+  NotificationManager,
+  RefreshTokens,
+  ServiceConfig,
+  TokenManager,
+} from "../types";
+import { toApiClientError } from "../errors";
+import { MutationQueue } from "../offline";
+import { SessionManager } from "../session";
+import { getTokenExpiry } from "../utils/jwt";
+import { consoleLogger } from "../utils/logger";
+import { applyAuth, attachRequestSigner } from "./auth";
+import { defaultRefreshStrategy } from "./refresh";
+import {
+  attachEnvelopeInterceptor,
+  getEnvelopeErrorExtractor,
+  resolveEnvelope,
+} from "./envelope";
+import {
+  attachRequestMiddleware,
+  attachResponseMiddleware,
+} from "./middleware";
+import { attachRetryInterceptor } from "./retry";
+import { RequestListener, RequestTracer } from "./tracing";
 
+/**
+ * A configured API client: services, auth and notifications plus the
+ * refresh state they share. `ApiConfig.initialize` sets up the default
+ * client; `createApiClient` makes isolated ones (tenants, tests, SSR).
+ */
 export class ApiConfig {
-  private static instance: ApiConfig;
+  private static instance?: ApiConfig;
   private options: ApiClientOptions;
-  private refreshPromise: Promise<void> | null = null;
+  // Keyed by token manager, services may each have their own
+  private refreshPromises = new Map<TokenManager | undefined, Promise<void>>();
+  private proactivelyRefreshedTokens = new Map<
+    TokenManager | undefined,
+    string
+  >();
   private notificationManager?: NotificationManager;
   private tokenManager?: TokenManager;
+  private mutationQueue?: MutationQueue;
+  private session?: SessionManager;
+  private logger: Logger;
+  private tracer: RequestTracer;
 
   private constructor(options: ApiClientOptions) {
     this.options = options;
     this.notificationManager = options.notificationManager;
-    this.tokenManager = options.tokenManager;
+    this.session = options.session;
+    this.tokenManager = options.tokenManager ?? options.session;
+    this.logger = options.logger ?? consoleLogger();
+    this.tracer = new RequestTracer(this.logger, options.tracing);
+
+    // Created up front so mutations saved before a reload are replayed
+    if (options.offline) {
+      this.mutationQueue = this.createMutationQueue();
+    }
   }
 
   public static getInstance(): ApiConfig {
@@ -26,7 +74,17 @@ export class ApiConfig {
   }
 
   public static initialize(options: ApiClientOptions): void {
-    ApiConfig.instance = new ApiConfig(options);
+    ApiConfig.instance = ApiConfig.create(options);
+  }
+
+  public static create(options: ApiClientOptions): ApiConfig {
+    return new ApiConfig(options);
+  }
+
+  // Drop the default client, mostly useful between tests
+  public static reset(): void {
+    ApiConfig.instance?.mutationQueue?.destroy();
+    ApiConfig.instance = undefined;
   }
 
   public createAxiosInstance(serviceName: string): AxiosInstance {
@@ -41,65 +99,132 @@ export class ApiConfig {
       ...serviceConfig.config, // Spread any custom Axios config
     });
 
-    // Request interceptor - add Bearer token
+    const middleware = [
+      ...(this.options.middleware ?? []),
+      ...(serviceConfig.middleware ?? []),
+    ];
+    // Signs what the middleware leave, so registered before them
+    attachRequestSigner(axiosInstance, serviceConfig.auth);
+    // Registered first so it runs last, once the auth header is set
+    attachRequestMiddleware(axiosInstance, middleware, serviceName);
+
+    // Request interceptor - add the service's credentials
     axiosInstance.interceptors.request.use(
-      (config: InternalAxiosRequestConfig) => {
-        if (this.options.tokenManager) {
-          const accessToken = this.options.tokenManager.getAccessToken();
-          if (accessToken) {
-            config.headers.Authorization = `Bearer ${accessToken}`;
+      async (config: InternalAxiosRequestConfig) => {
+        if (!config.skipTokenRefresh) {
+          const waitingSince = Date.now();
+          if (await this.ensureFreshToken(serviceName)) {
+            this.tracer.emit(config, serviceName, {
+              type: "refresh",
+              duration: Date.now() - waitingSince,
+            });
           }
         }
 
+        applyAuth(
+          config,
+          serviceConfig.auth,
+          this.getTokenManager(serviceName)
+        );
+        // Below the request's own headers and its credentials
+        Object.entries(this.getForwardedHeaders(serviceConfig) ?? {}).forEach(
+          ([name, value]) => {
+            if (!config.headers.has(name)) config.headers.set(name, value);
+          }
+        );
+
         return config;
       },
       (error) => Promise.reject(error)
     );
 
+    // Only bearer tokens are refreshed
+    const usesTokens =
+      !serviceConfig.auth || serviceConfig.auth.type === "bearer";
     axiosInstance.interceptors.response.use(
       (response: AxiosResponse) => response,
       async (error) => {
         const originalRequest = error.config;
+        const strategy = this.getRefreshStrategy();
 
-        if (error?.response?.status === 401 && !originalRequest._retry) {
-          // Check error code from response
-          // Supports: { code: "..." } or { error: { code: "..." } }
-          const errorCode =
-            error.response?.data?.code || error.response?.data?.error?.code;
-          const shouldRefresh =
-            errorCode === "TOKEN_EXPIRED" ||
-            errorCode === "ACCESS_TOKEN_NOT_PROVIDED";
-
-          // Only refresh if error code indicates token expiry
-          if (shouldRefresh) {
-            originalRequest._retry = true;
-
-            // Check if we have a refresh endpoint configured
-            const hasRefreshEndpoint = Object.values(
-              this.options.services
-            ).some((service) => service.refreshEndpoint);
-
-            const hasRefreshToken =
-              this.options.tokenManager?.getRefreshToken?.();
-            if (hasRefreshEndpoint && hasRefreshToken) {
-              try {
-                await this.refreshToken();
-                // Retry the original request
-                return axiosInstance(originalRequest);
-              } catch (refreshError) {
-                // Refresh failed, don't retry
-                return Promise.reject(error);
-              }
-            }
+        // Only refresh if the strategy says the token expired. Requests
+        // that skip it may be the refresh itself, which can't wait for itself
+        if (
+          originalRequest &&
+          !originalRequest._retry &&
+          !originalRequest.skipTokenRefresh &&
+          usesTokens &&
+          strategy.shouldRefresh(error)
+        ) {
+          originalRequest._retry = true;
+
+          // Refreshed, e.g. by another tab, while this request was in flight
+          const tokenManager = this.getTokenManager(serviceName);
+          const accessToken = tokenManager?.getAccessToken();
+          if (
+            this.session &&
+            tokenManager === this.session &&
+            accessToken &&
+            originalRequest.headers?.Authorization !== `Bearer ${accessToken}`
+          ) {
+            return axiosInstance(originalRequest);
           }
 
-          // Not a token expiry error - this is a real 401
+          if (this.canRefresh(serviceName)) {
+            try {
+              const waitingSince = Date.now();
+              await this.refreshToken(serviceName);
+              this.tracer.emit(originalRequest, serviceName, {
+                type: "refresh",
+                duration: Date.now() - waitingSince,
+              });
+              // Retry the original request
+              return axiosInstance(originalRequest);
+            } catch (refreshError) {
+              // Refresh failed, don't retry
+              return Promise.reject(error);
+            }
+          }
         }
 
+        // Not a token expiry error - this is a real 401
         return Promise.reject(error);
       }
     );
 
+    // Runs after the refresh interceptor, so a 401 is never retried here
+    attachRetryInterceptor(
+      axiosInstance,
+      serviceConfig.retry,
+      (config, { attempt, delay, error }) =>
+        this.tracer.emit(config, serviceName, {
+          type: "retry",
+          attempt,
+          delay,
+          status: error.response?.status,
+        })
+    );
+
+    // After retry, so only the final response is unwrapped
+    const envelope = resolveEnvelope(serviceConfig.envelope);
+    if (envelope) {
+      attachEnvelopeInterceptor(axiosInstance, envelope);
+    }
+    const errorExtractor = envelope
+      ? getEnvelopeErrorExtractor(envelope, this.options.errorExtractor)
+      : this.options.errorExtractor;
+
+    // Last, so refresh and retry still see the raw AxiosError
+    axiosInstance.interceptors.response.use(undefined, (error) =>
+      Promise.reject(toApiClientError(error, errorExtractor))
+    );
+
+    // After everything built in, so middleware sees the final outcome
+    attachResponseMiddleware(axiosInstance, middleware, serviceName);
+
+    // Last on both sides: starts timing first and reports the final outcome
+    this.tracer.attach(axiosInstance, serviceName);
+
     return axiosInstance;
   }
 
@@ -107,79 +232,247 @@ export class ApiConfig {
     return this.notificationManager;
   }
 
-  public getTokenManager(): TokenManager | undefined {
-    return this.tokenManager;
+  // The client's token manager, or the one `serviceName` sends bearer
+  // tokens from (none for other auth schemes)
+  public getTokenManager(serviceName?: string): TokenManager | undefined {
+    if (serviceName === undefined) return this.tokenManager;
+    const auth = this.options.services[serviceName]?.auth;
+    if (auth && auth.type !== "bearer") return undefined;
+    return auth?.tokenManager ?? this.tokenManager;
+  }
+
+  // How `serviceName` authenticates, e.g. to redact its API key
+  public getAuthScheme(serviceName: string): AuthScheme | undefined {
+    return this.options.services[serviceName]?.auth;
+  }
+
+  public getSession(): SessionManager | undefined {
+    return this.session;
+  }
+
+  public getLogger(): Logger {
+    return this.logger;
+  }
+
+  // Request events with their config and response, see ApiClientDevtools
+  public subscribeRequests(listener: RequestListener): () => void {
+    return this.tracer.subscribe(listener);
+  }
+
+  // The offline mutation queue, when `offline` is enabled
+  public getMutationQueue(): MutationQueue | undefined {
+    return this.mutationQueue;
+  }
+
+  private createMutationQueue(): MutationQueue {
+    const instances = new Map<string, AxiosInstance>();
+    const options =
+      typeof this.options.offline === "object" ? this.options.offline : {};
+
+    return new MutationQueue(
+      (serviceName, config) => {
+        let instance = instances.get(serviceName);
+        if (!instance) {
+          instance = this.createAxiosInstance(serviceName);
+          instances.set(serviceName, instance);
+        }
+        return instance(config);
+      },
+      options,
+      this.logger
+    );
   }
 
-  private async refreshToken(): Promise<void> {
+  private async refreshToken(serviceName: string): Promise<void> {
+    const tokenManager = this.getTokenManager(serviceName);
+
     // If a refresh is already in progress, wait for it
-    if (this.refreshPromise) {
-      return this.refreshPromise;
+    const inProgress = this.refreshPromises.get(tokenManager);
+    if (inProgress) {
+      return inProgress;
     }
 
-    // Start a new refresh
-    this.refreshPromise = this.performTokenRefresh();
+    // Start a new refresh, or wait for the one another tab is running
+    const refresh = () => this.performTokenRefresh(tokenManager, serviceName);
+    const promise =
+      this.session && tokenManager === this.session
+        ? this.session.coordinateRefresh(refresh)
+        : refresh();
+    this.refreshPromises.set(tokenManager, promise);
 
     try {
-      await this.refreshPromise;
+      await promise;
     } finally {
       // Clear the promise when done (success or failure)
-      this.refreshPromise = null;
+      this.refreshPromises.delete(tokenManager);
     }
   }
 
-  private async performTokenRefresh(): Promise<void> {
-    try {
-      const authService = Object.values(this.options.services).find(
-        (service) => service.refreshEndpoint
-      );
+  /**
+   * With `proactiveRefresh`, refresh before sending when the access token is
+   * about to expire, and hold requests while a refresh is in flight.
+   * Resolves to whether the request had to wait.
+   */
+  private async ensureFreshToken(serviceName: string): Promise<boolean> {
+    if (!this.options.proactiveRefresh) return false;
 
-      const tokenManager = this.options.tokenManager;
-      if (!tokenManager) {
-        console.error("No token manager configured");
-        this.options.onUnauthorized?.();
-        return;
+    const tokenManager = this.getTokenManager(serviceName);
+    if (!this.refreshPromises.has(tokenManager)) {
+      const accessToken = tokenManager?.getAccessToken();
+      if (!accessToken || !this.isExpiring(accessToken)) return false;
+
+      // Refresh a given token only once, even if the new one is short-lived
+      if (accessToken === this.proactivelyRefreshedTokens.get(tokenManager)) {
+        return false;
       }
+      if (!this.canRefresh(serviceName)) return false;
+      this.proactivelyRefreshedTokens.set(tokenManager, accessToken);
+    }
+
+    try {
+      await this.refreshToken(serviceName);
+    } catch {
+      // Refresh failures are handled in performTokenRefresh, send anyway
+    }
+    return true;
+  }
+
+  private isExpiring(accessToken: string): boolean {
+    const expiresAt = getTokenExpiry(accessToken);
+    if (expiresAt === null) return false;
+
+    const { skew = 30 } =
+      typeof this.options.proactiveRefresh === "object"
+        ? this.options.proactiveRefresh
+        : {};
+    return expiresAt - skew * 1000 <= Date.now();
+  }
+
+  private getRefreshStrategy() {
+    return { ...defaultRefreshStrategy, ...this.options.refreshStrategy };
+  }
+
+  // They carry the user's credentials, so a service that isn't the user's
+  // own API (another scheme, or its own tokens) must ask for them
+  private getForwardedHeaders(
+    service: ServiceConfig
+  ): Record<string, string> | undefined {
+    const { auth } = service;
+    if (auth && auth.type !== "bearer") return undefined;
+    const forward = service.forwardedHeaders ?? !auth?.tokenManager;
+    return forward ? this.options.forwardedHeaders : undefined;
+  }
 
-      // Find the auth service with refreshEndpoint
+  private getRefreshService(serviceName: string): ServiceConfig | undefined {
+    // A service with its own token manager refreshes at its own endpoint
+    const service = this.options.services[serviceName];
+    if (
+      service?.auth?.type === "bearer" &&
+      service.auth.tokenManager &&
+      service.refreshEndpoint
+    ) {
+      return service;
+    }
+
+    const refreshServiceName = this.options.refreshStrategy?.service;
+    if (refreshServiceName) {
+      return this.options.services[refreshServiceName];
+    }
+    return Object.values(this.options.services).find(
+      (service) => service.refreshEndpoint
+    );
+  }
 
-      if (!authService) {
-        console.error("No refresh endpoint configured");
+  private canRefresh(serviceName: string): boolean {
+    const tokenManager = this.getTokenManager(serviceName);
+
+    // A custom refresh may rely on an HttpOnly cookie instead of a stored token
+    if (this.options.refreshStrategy?.refresh) {
+      return !tokenManager?.getRefreshToken || !!tokenManager.getRefreshToken();
+    }
+
+    // In cookie mode only a session knows whether there is one
+    const hasRefreshToken = tokenManager?.refreshTokenInCookie
+      ? !this.session ||
+        tokenManager !== this.session ||
+        ["authenticated", "refreshing"].includes(this.session.getStatus())
+      : !!tokenManager?.getRefreshToken?.();
+    return (
+      !!this.getRefreshService(serviceName)?.refreshEndpoint && hasRefreshToken
+    );
+  }
+
+  private async performTokenRefresh(
+    tokenManager: TokenManager | undefined,
+    serviceName: string
+  ): Promise<void> {
+    try {
+      const strategy = this.getRefreshStrategy();
+      if (!tokenManager) {
+        this.logger.error("No token manager configured");
         this.options.onUnauthorized?.();
         return;
       }
 
-      let requestBody: any;
+      let refreshToken: string | null = null;
 
       // If refresh token is NOT in cookie, we need to pass it in body
       if (tokenManager.getRefreshToken) {
-        const refreshToken = tokenManager.getRefreshToken();
+        refreshToken = tokenManager.getRefreshToken();
         if (!refreshToken) {
           return;
         }
-        requestBody = { refreshToken };
       }
 
-      // Make refresh request
-      const response = await axios.post(
-        `${authService.baseURL}${authService.refreshEndpoint}`,
-        requestBody
-      );
+      let tokens: RefreshTokens;
 
-      // Update tokens based on response
-      if (response?.data?.data?.accessToken) {
-        tokenManager.setAccessToken(response.data.data.accessToken);
+      if (strategy.refresh) {
+        tokens = await strategy.refresh({ refreshToken, tokenManager });
+      } else {
+        // Find the auth service with refreshEndpoint
+        const authService = this.getRefreshService(serviceName);
+        if (!authService?.refreshEndpoint) {
+          this.logger.error("No refresh endpoint configured");
+          this.options.onUnauthorized?.();
+          return;
+        }
+
+        // With the service's axios config (adapter, withCredentials,
+        // timeout...) but none of its interceptors, so a 401 can't recurse
+        const body = strategy.buildRequestBody(refreshToken);
+        const headers = this.getForwardedHeaders(authService);
+        const response = await axios
+          .create({ baseURL: authService.baseURL, ...authService.config })
+          .post(authService.refreshEndpoint, body, headers && { headers });
+        tokens = strategy.extractTokens(response);
       }
 
+      if (!tokens?.accessToken) {
+        throw new Error("Refresh response did not include an access token");
+      }
+
+      // Update tokens based on response
+      tokenManager.setAccessToken(tokens.accessToken);
+
       // If refresh token is NOT in cookie, also update the refresh token
-      if (response.data.data.refreshToken && tokenManager.setRefreshToken) {
-        tokenManager.setRefreshToken(response.data.data.refreshToken);
+      if (tokens.refreshToken && tokenManager.setRefreshToken) {
+        tokenManager.setRefreshToken(tokens.refreshToken);
       }
     } catch (err) {
-      console.error("Refresh token error:", err);
-      this.options.tokenManager?.clearTokens();
+      this.logger.error("Token refresh failed", { error: err });
+      tokenManager?.clearTokens();
       this.options.onUnauthorized?.();
       throw err;
     }
   }
 }
+
+export type ApiClient = ApiConfig;
+
+/**
+ * Create an isolated client that ApiService instances or an
+ * ApiClientProvider can be bound to.
+ */
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  return ApiConfig.create(options);
+}
@@ -0,0 +1,129 @@
+import {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { isApiClientError } from "../errors";
+import { Middleware, MiddlewareContext } from "../types";
+
+// Responses made by `context.respond`, told apart from request configs
+const syntheticResponses = new WeakSet<object>();
+
+type Outcome = { response: AxiosResponse } | { error: unknown };
+
+function createContext(
+  service: string,
+  config: InternalAxiosRequestConfig | undefined
+): MiddlewareContext {
+  return {
+    service,
+    respond: (data, { status = 200, headers = {} } = {}) => {
+      const response: AxiosResponse = {
+        data,
+        status,
+        statusText: "",
+        headers,
+        config: config ?? ({} as InternalAxiosRequestConfig),
+      };
+      syntheticResponses.add(response);
+      return response;
+    },
+  };
+}
+
+/**
+ * Run the `onRequest` stages. Registered before the auth interceptor, since
+ * axios runs request interceptors last-registered first.
+ */
+export function attachRequestMiddleware(
+  axiosInstance: AxiosInstance,
+  middleware: Middleware[],
+  service: string
+): void {
+  if (!middleware.some((item) => item.onRequest)) return;
+
+  axiosInstance.interceptors.request.use(async (config) => {
+    let current = config;
+    for (const item of middleware) {
+      const result = await item.onRequest?.(
+        current,
+        createContext(service, current)
+      );
+      if (result && syntheticResponses.has(result)) {
+        // Skip the network, the response still passes the response stages
+        current.adapter = () => Promise.resolve(result as AxiosResponse);
+        return current;
+      }
+      if (result) current = result as InternalAxiosRequestConfig;
+    }
+    return current;
+  });
+}
+
+async function runStage(
+  item: Middleware,
+  outcome: Outcome,
+  service: string
+): Promise<Outcome> {
+  try {
+    if ("response" in outcome) {
+      const { response } = outcome;
+      const result = await item.onResponse?.(
+        response,
+        createContext(service, response.config)
+      );
+      return result ? { response: result } : outcome;
+    }
+
+    const { error } = outcome;
+    if (!item.onError || !isApiClientError(error)) return outcome;
+    const result = await item.onError(
+      error,
+      createContext(service, error.config)
+    );
+    return result ? { response: result } : outcome;
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Run the `onResponse` and `onError` stages, service middleware first.
+ * Registered last, so errors are already ApiClientErrors.
+ */
+export function attachResponseMiddleware(
+  axiosInstance: AxiosInstance,
+  middleware: Middleware[],
+  service: string
+): void {
+  const stages = [...middleware].reverse();
+  if (!stages.some((item) => item.onResponse || item.onError)) return;
+
+  // Refresh and retry re-send from inside the chain, so a response or error
+  // can come through twice; the stages run only the first time
+  const handled = new WeakSet<object>();
+
+  const run = async (outcome: Outcome): Promise<AxiosResponse> => {
+    let current = outcome;
+    for (const item of stages) {
+      current = await runStage(item, current, service);
+    }
+
+    if ("error" in current) {
+      if (current.error && typeof current.error === "object") {
+        handled.add(current.error);
+      }
+      throw current.error;
+    }
+    handled.add(current.response);
+    return current.response;
+  };
+
+  axiosInstance.interceptors.response.use(
+    (response) => (handled.has(response) ? response : run({ response })),
+    (error) =>
+      error && typeof error === "object" && handled.has(error)
+        ? Promise.reject(error)
+        : run({ error })
+  );
+}
@@ -0,0 +1,31 @@
+import { AxiosError, AxiosResponse } from "axios";
+import { RefreshStrategy, RefreshTokens } from "../types";
+
+// Error codes that mean "the access token expired", anything else is a real 401
+const REFRESHABLE_ERROR_CODES = ["TOKEN_EXPIRED", "ACCESS_TOKEN_NOT_PROVIDED"];
+
+/**
+ * The built-in refresh behavior: refresh on a 401 whose body carries a
+ * token expiry code, POST `{ refreshToken }` to the service that has a
+ * `refreshEndpoint` and read the tokens from `response.data.data`.
+ */
+export const defaultRefreshStrategy: Required<
+  Pick<RefreshStrategy, "shouldRefresh" | "buildRequestBody" | "extractTokens">
+> = {
+  shouldRefresh: (error: AxiosError) => {
+    if (error.response?.status !== 401) return false;
+
+    // Supports: { code: "..." } or { error: { code: "..." } }
+    const data = error.response.data as
+      | { code?: string; error?: { code?: string } }
+      | undefined;
+    const errorCode = data?.code || data?.error?.code;
+    return !!errorCode && REFRESHABLE_ERROR_CODES.includes(errorCode);
+  },
+  buildRequestBody: (refreshToken) =>
+    refreshToken ? { refreshToken } : undefined,
+  extractTokens: (response: AxiosResponse): RefreshTokens => ({
+    accessToken: response?.data?.data?.accessToken,
+    refreshToken: response?.data?.data?.refreshToken,
+  }),
+};
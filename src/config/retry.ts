@@ -0,0 +1,117 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { RetryPolicy } from "../types";
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryOn: [408, 429, 500, 502, 503, 504],
+  methods: ["get", "head", "options", "put", "delete"],
+  retryNetworkErrors: true,
+};
+
+type RetryableConfig = InternalAxiosRequestConfig & { _retryAttempt?: number };
+
+/**
+ * Merge the service policy with the per-request `retry` option.
+ * Returns null when retries are disabled for the request.
+ */
+export function resolveRetryPolicy(
+  servicePolicy: RetryPolicy | boolean | undefined,
+  requestPolicy: RetryPolicy | boolean | undefined
+): Required<RetryPolicy> | null {
+  if (requestPolicy === false) return null;
+  if (!servicePolicy && !requestPolicy) return null;
+
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(typeof servicePolicy === "object" ? servicePolicy : {}),
+    ...(typeof requestPolicy === "object" ? requestPolicy : {}),
+  };
+}
+
+// `Retry-After` is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (1-based).
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number
+): number {
+  const delay = Math.min(
+    policy.baseDelay * 2 ** (attempt - 1),
+    policy.maxDelay
+  );
+  return policy.jitter ? Math.random() * delay : delay;
+}
+
+function isRetryable(
+  error: AxiosError,
+  policy: Required<RetryPolicy>
+): boolean {
+  const method = (error.config?.method ?? "get").toLowerCase();
+  if (!policy.methods.map((m) => m.toLowerCase()).includes(method)) {
+    return false;
+  }
+
+  if (!error.response) {
+    // Never retry requests the caller aborted
+    return policy.retryNetworkErrors && error.code !== "ERR_CANCELED";
+  }
+
+  return policy.retryOn.includes(error.response.status);
+}
+
+/**
+ * Retry failed requests according to the service and request policies.
+ */
+export function attachRetryInterceptor(
+  axiosInstance: AxiosInstance,
+  servicePolicy: RetryPolicy | boolean | undefined,
+  onRetry?: (
+    config: InternalAxiosRequestConfig,
+    retry: { attempt: number; delay: number; error: AxiosError }
+  ) => void
+): void {
+  axiosInstance.interceptors.response.use(undefined, async (error) => {
+    const config = error?.config as RetryableConfig | undefined;
+    if (!config) return Promise.reject(error);
+
+    const policy = resolveRetryPolicy(servicePolicy, config.retry);
+    if (!policy || !isRetryable(error, policy)) {
+      return Promise.reject(error);
+    }
+
+    const attempt = (config._retryAttempt ?? 0) + 1;
+    if (attempt >= policy.maxAttempts) {
+      return Promise.reject(error);
+    }
+
+    const retryAfter = parseRetryAfter(
+      error.response?.headers?.["retry-after"]
+    );
+    // Give up rather than retry sooner than the server asked for
+    if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+      return Promise.reject(error);
+    }
+
+    const delay = retryAfter ?? getRetryDelay(policy, attempt);
+    // `attempt` counts retries, the event counts the first try too
+    onRetry?.(config, { attempt: attempt + 1, delay, error });
+    await new Promise((resolve) => setTimeout(resolve, delay));
+
+    config._retryAttempt = attempt;
+    return axiosInstance(config);
+  });
+}
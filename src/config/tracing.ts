@@ -0,0 +1,222 @@
+import {
+  AxiosInstance,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { Logger, RequestEvent, TracingOptions } from "../types";
+
+interface RequestTrace {
+  requestId: string;
+  startedAt: number;
+  traceId?: string;
+}
+
+// Copied by axios onto the config of every retry
+type TracedConfig = InternalAxiosRequestConfig & {
+  _trace?: RequestTrace;
+  _retryAttempt?: number;
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+// An event without the fields the tracer fills in
+type EventDetails = DistributiveOmit<
+  RequestEvent,
+  "requestId" | "service" | "method" | "url" | "traceId" | "timestamp"
+>;
+
+// The request behind an event, and its response once it ended
+export interface RequestExchange {
+  config: InternalAxiosRequestConfig;
+  response?: AxiosResponse;
+}
+
+export type RequestListener = (
+  event: RequestEvent,
+  exchange: RequestExchange
+) => void;
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  if (typeof crypto !== "undefined" && crypto.getRandomValues) {
+    crypto.getRandomValues(values);
+  } else {
+    values.forEach((_value, index) => {
+      values[index] = Math.floor(Math.random() * 256);
+    });
+  }
+  return Array.from(values, (value) =>
+    value.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * A W3C traceparent for a new span, in the trace of `parent` when it is a
+ * valid traceparent and in a new trace otherwise.
+ */
+export function createTraceparent(parent?: string): string {
+  const match = parent?.trim().toLowerCase().match(TRACEPARENT);
+  const valid = match && !/^0+$/.test(match[1]);
+  const traceId = valid ? match[1] : randomHex(16);
+  const flags = valid ? match[3] : "01";
+  return `00-${traceId}-${randomHex(8)}-${flags}`;
+}
+
+/**
+ * Builds and dispatches the request events of one client.
+ */
+export class RequestTracer {
+  private readonly options: TracingOptions;
+  private readonly logger: Logger;
+  private listeners = new Set<RequestListener>();
+
+  constructor(logger: Logger, options: TracingOptions = {}) {
+    this.options = options;
+    this.logger = logger;
+  }
+
+  // Every event with its request, e.g. for ApiClientDevtools
+  public subscribe(listener: RequestListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public emit(
+    config: InternalAxiosRequestConfig | undefined,
+    service: string,
+    details: EventDetails,
+    response?: AxiosResponse
+  ): void {
+    const trace = (config as TracedConfig | undefined)?._trace;
+    if (!config || !trace) return;
+
+    const event = {
+      requestId: trace.requestId,
+      service,
+      method: (config.method ?? "get").toUpperCase(),
+      url: config.url ?? "",
+      traceId: trace.traceId,
+      timestamp: Date.now(),
+      ...details,
+    } as RequestEvent;
+
+    this.log(event);
+    try {
+      this.options.onEvent?.(event);
+      this.listeners.forEach((listener) =>
+        listener(event, { config, response })
+      );
+    } catch (error) {
+      this.logger.warn("Request event handler failed", { error });
+    }
+  }
+
+  /**
+   * Start timing every request and, with `traceparent`, propagate the
+   * trace. Registered last so it runs before the other request
+   * interceptors, and the end is reported after everything else.
+   */
+  public attach(axiosInstance: AxiosInstance, service: string): void {
+    axiosInstance.interceptors.request.use((config: TracedConfig) => {
+      if (config._trace) return config; // A retry
+
+      const trace: RequestTrace = {
+        requestId: randomHex(8),
+        startedAt: Date.now(),
+      };
+      const { traceparent } = this.options;
+      if (traceparent && !config.headers.has("traceparent")) {
+        const header = createTraceparent(
+          typeof traceparent === "function" ? traceparent() : undefined
+        );
+        config.headers.set("traceparent", header);
+        trace.traceId = header.split("-")[1];
+      }
+      config._trace = trace;
+
+      this.emit(config, service, { type: "start" });
+      return config;
+    });
+
+    // Retries and refreshes re-send from inside the chain; end only once
+    const ended = new WeakSet<object>();
+    const end = (
+      config: TracedConfig | undefined,
+      outcome: object,
+      status?: number,
+      response?: AxiosResponse,
+      error?: unknown
+    ) => {
+      if (ended.has(outcome)) return;
+      ended.add(outcome);
+      this.emit(
+        config,
+        service,
+        {
+          type: "end",
+          status,
+          error,
+          duration: Date.now() - (config?._trace?.startedAt ?? Date.now()),
+          attempts: (config?._retryAttempt ?? 0) + 1,
+        },
+        response
+      );
+    };
+
+    axiosInstance.interceptors.response.use(
+      (response) => {
+        end(response.config, response, response.status, response);
+        return response;
+      },
+      (error) => {
+        if (error && typeof error === "object") {
+          end(
+            error.config,
+            error,
+            error.response?.status ?? error.status,
+            error.response,
+            error
+          );
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
+  private log(event: RequestEvent): void {
+    const request = `${event.method} ${event.url}`;
+    switch (event.type) {
+      case "start":
+        this.logger.debug(`→ ${request}`, { requestId: event.requestId });
+        break;
+      case "retry":
+        this.logger.info(
+          `Retrying ${request} (attempt ${event.attempt}) in ${Math.round(
+            event.delay
+          )}ms`,
+          { requestId: event.requestId, status: event.status }
+        );
+        break;
+      case "refresh":
+        this.logger.info(
+          `${request} waited ${event.duration}ms for a token refresh`,
+          {
+            requestId: event.requestId,
+          }
+        );
+        break;
+      case "end":
+        this.logger.debug(
+          `← ${request} ${event.status ?? "failed"} (${event.duration}ms)`,
+          { requestId: event.requestId, attempts: event.attempts }
+        );
+        break;
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { createContext, ReactNode, useContext } from "react";
+import type { ApiClient } from "../config";
+
+export const ApiClientContext = createContext<ApiClient | null>(null);
+
+export interface ApiClientProviderProps {
+  client: ApiClient;
+  children?: ReactNode;
+}
+
+/**
+ * Makes `client` the one used by ApiService hooks below it, unless a
+ * service was explicitly bound to another client.
+ */
+export function ApiClientProvider({
+  client,
+  children,
+}: ApiClientProviderProps) {
+  return (
+    <ApiClientContext.Provider value={client}>
+      {children}
+    </ApiClientContext.Provider>
+  );
+}
+
+// The client from the nearest ApiClientProvider, if any
+export function useApiClient(): ApiClient | null {
+  return useContext(ApiClientContext);
+}
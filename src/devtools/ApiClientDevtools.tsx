@@ -0,0 +1,240 @@
+import { CSSProperties, useMemo, useState } from "react";
+import {
+  RequestLogEntry,
+  RequestLogOptions,
+  useRequestLog,
+} from "./useRequestLog";
+
+export interface ApiClientDevtoolsProps extends RequestLogOptions {
+  initialIsOpen?: boolean;
+  position?: "bottom-left" | "bottom-right";
+}
+
+const styles: Record<string, CSSProperties> = {
+  toggle: {
+    position: "fixed",
+    bottom: 12,
+    zIndex: 99999,
+    padding: "6px 10px",
+    border: "none",
+    borderRadius: 4,
+    background: "#1f2937",
+    color: "#f9fafb",
+    font: "12px monospace",
+    cursor: "pointer",
+  },
+  panel: {
+    position: "fixed",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    height: "40vh",
+    zIndex: 99998,
+    display: "flex",
+    flexDirection: "column",
+    background: "#111827",
+    color: "#e5e7eb",
+    font: "12px monospace",
+    borderTop: "1px solid #374151",
+  },
+  toolbar: {
+    display: "flex",
+    gap: 8,
+    alignItems: "center",
+    padding: 8,
+    borderBottom: "1px solid #374151",
+  },
+  body: { display: "flex", flex: 1, minHeight: 0 },
+  list: { flex: 1, overflow: "auto", margin: 0, padding: 0 },
+  details: {
+    flex: 1,
+    overflow: "auto",
+    padding: 8,
+    borderLeft: "1px solid #374151",
+  },
+  row: {
+    display: "grid",
+    gridTemplateColumns: "64px 56px 1fr 80px 64px 72px",
+    gap: 8,
+    padding: "4px 8px",
+    cursor: "pointer",
+    listStyle: "none",
+  },
+  pre: { margin: "4px 0 12px", whiteSpace: "pre-wrap", wordBreak: "break-all" },
+};
+
+const stateColors = {
+  pending: "#9ca3af",
+  success: "#34d399",
+  error: "#f87171",
+};
+
+function format(value: unknown): string {
+  if (value === undefined) return "—";
+  if (typeof value === "string") {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+function matches(entry: RequestLogEntry, search: string): boolean {
+  const text = `${entry.method} ${entry.url} ${entry.status ?? ""}`;
+  return text.toLowerCase().includes(search.toLowerCase());
+}
+
+function Details({ entry }: { entry: RequestLogEntry }) {
+  const sections: Array<[string, unknown]> = [
+    ["Request headers", entry.requestHeaders],
+    ["Query params", entry.params],
+    ["Request body", entry.requestBody],
+    ["Response headers", entry.responseHeaders],
+    ["Response body", entry.responseBody],
+  ];
+
+  return (
+    <div style={styles.details}>
+      <strong>
+        {entry.method} {entry.url}
+      </strong>
+      <p>
+        {entry.service} · {entry.status ?? entry.state} ·{" "}
+        {entry.duration ?? "…"}ms · {entry.attempts} attempt(s)
+        {entry.refreshed ? " · waited for token refresh" : ""}
+      </p>
+      {entry.error && <p style={{ color: stateColors.error }}>{entry.error}</p>}
+      {sections.map(([title, value]) => (
+        <section key={title}>
+          <div>{title}</div>
+          <pre style={styles.pre}>{format(value)}</pre>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Recent requests of the API client with their status, timing, payloads,
+ * retries and token refreshes. Renders nothing in production builds.
+ *
+ * @example
+ * <ApiClientProvider client={client}>
+ *   <App />
+ *   <ApiClientDevtools />
+ * </ApiClientProvider>
+ */
+export function ApiClientDevtools({
+  initialIsOpen = false,
+  position = "bottom-right",
+  ...options
+}: ApiClientDevtoolsProps) {
+  const { entries, clear } = useRequestLog(options);
+  const [isOpen, setIsOpen] = useState(initialIsOpen);
+  const [search, setSearch] = useState("");
+  const [service, setService] = useState("");
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const services = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.service))).sort(),
+    [entries]
+  );
+  const visible = entries.filter(
+    (entry) =>
+      (!service || entry.service === service) &&
+      (!errorsOnly || entry.state === "error") &&
+      matches(entry, search)
+  );
+  const selected = entries.find((entry) => entry.id === selectedId);
+  const side = position === "bottom-left" ? { left: 12 } : { right: 12 };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        style={{ ...styles.toggle, ...side }}
+        onClick={() => setIsOpen(true)}
+      >
+        API ({entries.length})
+      </button>
+    );
+  }
+
+  return (
+    <div style={styles.panel} role="region" aria-label="API client devtools">
+      <div style={styles.toolbar}>
+        <input
+          placeholder="Filter by method, URL or status"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+        />
+        <select
+          aria-label="Service"
+          value={service}
+          onChange={(event) => setService(event.target.value)}
+        >
+          <option value="">All services</option>
+          {services.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={errorsOnly}
+            onChange={(event) => setErrorsOnly(event.target.checked)}
+          />{" "}
+          Errors only
+        </label>
+        <button type="button" onClick={clear}>
+          Clear
+        </button>
+        <button
+          type="button"
+          style={{ marginLeft: "auto" }}
+          onClick={() => setIsOpen(false)}
+        >
+          Close
+        </button>
+      </div>
+      <div style={styles.body}>
+        <ul style={styles.list}>
+          {visible.map((entry) => (
+            <li
+              key={entry.id}
+              style={{
+                ...styles.row,
+                background: entry.id === selectedId ? "#1f2937" : undefined,
+              }}
+              onClick={() => setSelectedId(entry.id)}
+            >
+              <span>{entry.service}</span>
+              <span>{entry.method}</span>
+              <span>{entry.url}</span>
+              <span style={{ color: stateColors[entry.state] }}>
+                {entry.status ?? entry.state}
+              </span>
+              <span>
+                {entry.duration === undefined ? "…" : `${entry.duration}ms`}
+              </span>
+              <span>
+                {entry.attempts > 1 ? `↻${entry.attempts - 1}` : ""}
+                {entry.refreshed ? " 🔑" : ""}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {selected && <Details entry={selected} />}
+      </div>
+    </div>
+  );
+}
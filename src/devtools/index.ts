@@ -0,0 +1,23 @@
+import { ReactElement } from "react";
+import {
+  ApiClientDevtools as Devtools,
+  ApiClientDevtoolsProps,
+} from "./ApiClientDevtools";
+
+// Bundlers replace NODE_ENV, so production builds drop the panel entirely
+export const ApiClientDevtools: (
+  props: ApiClientDevtoolsProps
+) => ReactElement | null =
+  process.env.NODE_ENV === "production" ? () => null : Devtools;
+
+export {
+  useRequestLog,
+  redactHeaders,
+  DEFAULT_REDACTED_HEADERS,
+} from "./useRequestLog";
+export type { ApiClientDevtoolsProps } from "./ApiClientDevtools";
+export type {
+  RequestLogEntry,
+  RequestLogOptions,
+  RequestLogState,
+} from "./useRequestLog";
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from "react";
+import { ApiClient, ApiConfig } from "../config";
+import { useApiClient } from "../context";
+import { getErrorMessage } from "../errors";
+
+export type RequestLogState = "pending" | "success" | "error";
+
+export interface RequestLogEntry {
+  id: string;
+  service: string;
+  method: string;
+  url: string;
+  state: RequestLogState;
+  startedAt: number;
+  status?: number;
+  duration?: number;
+  attempts: number;
+  refreshed: boolean; // Waited for a token refresh
+  requestHeaders: Record<string, string>; // Redacted
+  params?: unknown;
+  requestBody?: unknown;
+  responseHeaders?: Record<string, string>; // Redacted
+  responseBody?: unknown;
+  error?: string;
+}
+
+export interface RequestLogOptions {
+  client?: ApiClient; // Default: the provider's, then the default client
+  maxEntries?: number; // Default 100
+  redactHeaders?: string[]; // Replaces the default list, case-insensitive
+}
+
+export const DEFAULT_REDACTED_HEADERS = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+
+/**
+ * Copy of `headers` with the values of `redacted` ones hidden.
+ */
+export function redactHeaders(
+  headers: unknown,
+  redacted: string[] = DEFAULT_REDACTED_HEADERS
+): Record<string, string> {
+  const plain =
+    (headers as { toJSON?: () => object })?.toJSON?.() ?? headers ?? {};
+  const hidden = redacted.map((name) => name.toLowerCase());
+
+  return Object.fromEntries(
+    Object.entries(plain as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => [
+        name,
+        hidden.includes(name.toLowerCase()) ? "[redacted]" : String(value),
+      ])
+  );
+}
+
+/**
+ * Copy of `params` with the values of `redacted` ones hidden.
+ */
+function redactParams(params: unknown, redacted: string[]): unknown {
+  if (!redacted.length || !params || typeof params !== "object") return params;
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [
+      name,
+      redacted.includes(name) ? "[redacted]" : value,
+    ])
+  );
+}
+
+/**
+ * `url` with the values of `redacted` query parameters hidden.
+ */
+function redactUrl(url: string, redacted: string[]): string {
+  return redacted.reduce(
+    (current, name) =>
+      current.replace(
+        new RegExp(
+          `([?&]${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}=)[^&#]*`,
+          "g"
+        ),
+        "$1[redacted]"
+      ),
+    url
+  );
+}
+
+/**
+ * The client's recent requests, newest first, recorded while mounted.
+ */
+export function useRequestLog({
+  client,
+  maxEntries = 100,
+  redactHeaders: redacted = DEFAULT_REDACTED_HEADERS,
+}: RequestLogOptions = {}) {
+  const contextClient = useApiClient();
+  const resolvedClient = client ?? contextClient ?? ApiConfig.getInstance();
+  const [entries, setEntries] = useState<RequestLogEntry[]>([]);
+  const redactedKey = redacted.join(",");
+
+  useEffect(() => {
+    const hidden = redactedKey.split(",");
+    const update = (id: string, change: Partial<RequestLogEntry>) =>
+      setEntries((current) =>
+        current.map((entry) =>
+          entry.id === id ? { ...entry, ...change } : entry
+        )
+      );
+
+    return resolvedClient.subscribeRequests((event, { config, response }) => {
+      // The service's own API key header or query parameter, too
+      const auth = resolvedClient.getAuthScheme(event.service);
+      const apiKey = auth?.type === "apiKey" ? auth : undefined;
+      const headers = apiKey?.header ? [...hidden, apiKey.header] : hidden;
+      const query = apiKey?.query ? [apiKey.query] : [];
+
+      switch (event.type) {
+        case "start":
+          setEntries((current) =>
+            [
+              {
+                id: event.requestId,
+                service: event.service,
+                method: event.method,
+                url: redactUrl(event.url, query),
+                state: "pending" as const,
+                startedAt: event.timestamp,
+                attempts: 1,
+                refreshed: false,
+                requestHeaders: redactHeaders(config.headers, headers),
+                params: redactParams(config.params, query),
+                requestBody: config.data,
+              },
+              ...current,
+            ].slice(0, maxEntries)
+          );
+          break;
+        case "retry":
+          update(event.requestId, { attempts: event.attempt });
+          break;
+        case "refresh":
+          update(event.requestId, { refreshed: true });
+          break;
+        case "end":
+          update(event.requestId, {
+            state: event.error ? "error" : "success",
+            status: event.status,
+            duration: event.duration,
+            attempts: event.attempts,
+            // By now the auth header or query parameter is set
+            requestHeaders: redactHeaders(config.headers, headers),
+            params: redactParams(config.params, query),
+            responseHeaders: response
+              ? redactHeaders(response.headers, headers)
+              : undefined,
+            responseBody: response?.data,
+            error: event.error ? getErrorMessage(event.error) : undefined,
+          });
+          break;
+      }
+    });
+  }, [resolvedClient, maxEntries, redactedKey]);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  return { entries, clear };
+}
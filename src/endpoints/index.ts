@@ -0,0 +1,227 @@
+import { UseMutationResult, UseQueryResult } from "@tanstack/react-query";
+import {
+  ApiService,
+  UseMutationApiProps,
+  UseQueryApiProps,
+} from "../services/ApiService";
+import { ApiClientError } from "../errors";
+import { Schema } from "../schema";
+import { PathParamNames, PathParams } from "../utils/path";
+
+export interface QueryEndpoint<TData, TPath extends string = string> {
+  kind: "query";
+  path: TPath;
+  method: "get" | "post";
+  key?: unknown[];
+  schema?: Schema<TData>;
+  // Type-only marker so the response type survives inference
+  readonly __data?: TData;
+}
+
+export interface MutationEndpoint<
+  TData,
+  TVariables,
+  TPath extends string = string
+> {
+  kind: "mutation";
+  path: TPath;
+  method: "post" | "put" | "patch" | "delete";
+  schema?: Schema<TData>;
+  requestSchema?: Schema<TVariables>;
+  readonly __data?: TData;
+  readonly __variables?: TVariables;
+}
+
+export type EndpointDefinition =
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  QueryEndpoint<any, string> | MutationEndpoint<any, any, string>;
+
+// Path params are required only when the template has placeholders
+type WithPathParams<TPath extends string, TArgs> = [
+  PathParamNames<TPath>
+] extends [never]
+  ? TArgs & { pathParams?: undefined }
+  : TArgs & { pathParams: PathParams<TPath> };
+
+export type QueryHookArgs<TData, TPath extends string> = WithPathParams<
+  TPath,
+  Omit<UseQueryApiProps<TData>, "key" | "url" | "method">
+>;
+
+// Mutation path params may instead come from the variables, e.g. `{ id, ...body }`
+type PathParamsInVariables<TPath extends string, TVariables> = [
+  PathParamNames<TPath>
+] extends [keyof TVariables]
+  ? true
+  : false;
+
+export type MutationHookArgs<
+  TData,
+  TVariables,
+  TPath extends string
+> = PathParamsInVariables<TPath, TVariables> extends true
+  ? Omit<UseMutationApiProps<TData, TVariables>, "url" | "method"> & {
+      pathParams?: Partial<PathParams<TPath>>;
+    }
+  : WithPathParams<
+      TPath,
+      Omit<UseMutationApiProps<TData, TVariables>, "url" | "method">
+    >;
+
+type QueryHook<TData, TPath extends string> = [PathParamNames<TPath>] extends [
+  never
+]
+  ? (
+      args?: QueryHookArgs<TData, TPath>
+    ) => UseQueryResult<TData, ApiClientError>
+  : (
+      args: QueryHookArgs<TData, TPath>
+    ) => UseQueryResult<TData, ApiClientError>;
+
+type MutationHook<
+  TData,
+  TVariables,
+  TPath extends string
+> = PathParamsInVariables<TPath, TVariables> extends true
+  ? (
+      args?: MutationHookArgs<TData, TVariables, TPath>
+    ) => UseMutationResult<TData, ApiClientError, TVariables>
+  : (
+      args: MutationHookArgs<TData, TVariables, TPath>
+    ) => UseMutationResult<TData, ApiClientError, TVariables>;
+
+export type EndpointHooks<
+  TDefinitions extends Record<string, EndpointDefinition>
+> = {
+  [K in keyof TDefinitions &
+    string as `use${Capitalize<K>}`]: TDefinitions[K] extends QueryEndpoint<
+    infer TData,
+    infer TPath
+  >
+    ? QueryHook<TData, TPath>
+    : TDefinitions[K] extends MutationEndpoint<
+        infer TData,
+        infer TVariables,
+        infer TPath
+      >
+    ? MutationHook<TData, TVariables, TPath>
+    : never;
+};
+
+// Untyped shape of the generated hooks' arguments, used at runtime only
+type RuntimeHookArgs<TProps> = Omit<TProps, "key" | "url" | "method"> & {
+  pathParams?: Record<string, string | number>;
+};
+
+/**
+ * Start an endpoint definition with its response (and mutation body) types.
+ * When a schema is given the types are inferred from it instead.
+ *
+ * @example
+ * endpoint<User>().query("/users/:id", { key: ["users"] })
+ * endpoint<User, UpdateUserBody>().mutation("/users/:id", "put")
+ * endpoint().query("/users/:id", { schema: fromZod(userSchema) })
+ */
+export function endpoint<TData, TVariables = unknown>() {
+  return {
+    query: <TPath extends string, TSchemaData = TData>(
+      path: TPath,
+      options: {
+        method?: "get" | "post";
+        key?: unknown[];
+        schema?: Schema<TSchemaData>;
+      } = {}
+    ): QueryEndpoint<TSchemaData, TPath> => ({
+      kind: "query",
+      path,
+      method: options.method ?? "get",
+      key: options.key,
+      schema: options.schema,
+    }),
+    mutation: <
+      TPath extends string,
+      TSchemaData = TData,
+      TSchemaVariables = TVariables
+    >(
+      path: TPath,
+      method: MutationEndpoint<TData, TVariables>["method"] = "post",
+      options: {
+        schema?: Schema<TSchemaData>;
+        requestSchema?: Schema<TSchemaVariables>;
+      } = {}
+    ): MutationEndpoint<TSchemaData, TSchemaVariables, TPath> => ({
+      kind: "mutation",
+      path,
+      method,
+      schema: options.schema,
+      requestSchema: options.requestSchema,
+    }),
+  };
+}
+
+/**
+ * Build the query key for a query endpoint: the definition's `key`
+ * (or its path template) followed by the path params and query params.
+ */
+export function getEndpointQueryKey(
+  definition: QueryEndpoint<unknown>,
+  pathParams?: Record<string, unknown>,
+  params?: Record<string, unknown>
+): unknown[] {
+  return [
+    ...(definition.key ?? [definition.path]),
+    ...(pathParams ? [pathParams] : []),
+    ...(params ? [params] : []),
+  ];
+}
+
+/**
+ * Generate typed `useX` hooks for every endpoint declared for a service.
+ *
+ * @example
+ * const users = createEndpoints(new ApiService("api"), {
+ *   getUser: endpoint<User>().query("/users/:id"),
+ *   updateUser: endpoint<User, UpdateUserBody>().mutation("/users/:id", "put"),
+ * });
+ *
+ * users.useGetUser({ pathParams: { id: 1 } });
+ */
+export function createEndpoints<
+  TDefinitions extends Record<string, EndpointDefinition>
+>(service: ApiService, definitions: TDefinitions): EndpointHooks<TDefinitions> {
+  const hooks: Record<string, unknown> = {};
+
+  Object.entries(definitions).forEach(([name, definition]) => {
+    const hookName = `use${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+
+    if (definition.kind === "query") {
+      hooks[hookName] = ({
+        pathParams,
+        ...props
+      }: RuntimeHookArgs<UseQueryApiProps<unknown>> = {}) =>
+        service.useQuery({
+          ...props,
+          key: getEndpointQueryKey(definition, pathParams, props.params),
+          url: definition.path,
+          pathParams,
+          method: definition.method,
+          schema: props.schema ?? definition.schema,
+        });
+    } else {
+      hooks[hookName] = ({
+        pathParams,
+        ...props
+      }: RuntimeHookArgs<UseMutationApiProps<unknown, unknown>> = {}) =>
+        service.useMutation({
+          ...props,
+          url: definition.path,
+          pathParams,
+          method: definition.method,
+          schema: props.schema ?? definition.schema,
+          requestSchema: props.requestSchema ?? definition.requestSchema,
+        });
+    }
+  });
+
+  return hooks as EndpointHooks<TDefinitions>;
+}
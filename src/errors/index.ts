@@ -0,0 +1,252 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import type { QueuedMutation } from "../offline";
+import { SchemaIssue } from "../schema";
+import { ApiError, ErrorExtractor, ExtractedError } from "../types";
+
+export type ApiClientErrorKind =
+  | "network"
+  | "timeout"
+  | "cancelled"
+  | "unauthorized"
+  | "forbidden"
+  | "validation"
+  | "server"
+  | "http"
+  | "schema"
+  | "queued";
+
+export interface ApiClientErrorOptions<TBody> extends ExtractedError {
+  status?: number;
+  response?: AxiosResponse<TBody>;
+  config?: InternalAxiosRequestConfig;
+  cause?: unknown;
+}
+
+/**
+ * Base class of every error the client rejects with. `response` mirrors
+ * AxiosError so `error.response?.data` keeps working.
+ */
+export class ApiClientError<TBody = ApiError> extends Error {
+  public readonly kind: ApiClientErrorKind = "http";
+  public readonly isApiClientError = true;
+  public readonly status?: number;
+  public readonly code?: string;
+  public readonly fieldErrors?: Record<string, string[]>;
+  public readonly response?: AxiosResponse<TBody>;
+  public readonly config?: InternalAxiosRequestConfig;
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: ApiClientErrorOptions<TBody> = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code;
+    this.fieldErrors = options.fieldErrors;
+    this.response = options.response;
+    this.config = options.config;
+    this.cause = options.cause;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  // Body of the error response, if any
+  public get data(): TBody | undefined {
+    return this.response?.data;
+  }
+}
+
+// The request never got a response (offline, DNS, CORS...)
+export class NetworkError extends ApiClientError {
+  public readonly kind = "network";
+}
+
+export class TimeoutError extends ApiClientError {
+  public readonly kind = "timeout";
+}
+
+// The request was aborted by the caller, never worth notifying about
+export class CancelledError extends ApiClientError {
+  public readonly kind = "cancelled";
+}
+
+export class UnauthorizedError extends ApiClientError {
+  public readonly kind = "unauthorized";
+}
+
+export class ForbiddenError extends ApiClientError {
+  public readonly kind = "forbidden";
+}
+
+// 422, or 400 with field errors
+export class ValidationError extends ApiClientError {
+  public readonly kind = "validation";
+}
+
+export class ServerError extends ApiClientError {
+  public readonly kind = "server";
+}
+
+/**
+ * The request body or response didn't match its schema; `issues` lists
+ * what was wrong and where.
+ */
+export class SchemaValidationError extends ApiClientError {
+  public readonly kind = "schema";
+  public readonly target: "request" | "response";
+  public readonly issues: SchemaIssue[];
+
+  constructor(
+    target: "request" | "response",
+    issues: SchemaIssue[],
+    options: ApiClientErrorOptions<ApiError> = {}
+  ) {
+    const [first] = issues;
+    const where = first?.path.length ? `${first.path.join(".")}: ` : "";
+    super(
+      `Invalid ${target}${first ? ` (${where}${first.message})` : ""}`,
+      options
+    );
+    this.target = target;
+    this.issues = issues;
+  }
+}
+
+/**
+ * An offline mutation was saved to the client's queue instead of being
+ * sent; it is replayed once the connection is back.
+ */
+export class QueuedMutationError extends ApiClientError {
+  public readonly kind = "queued";
+  public readonly mutation: QueuedMutation;
+
+  constructor(
+    mutation: QueuedMutation,
+    options: ApiClientErrorOptions<ApiError> = {}
+  ) {
+    super("Saved offline, it will be sent once back online", options);
+    this.mutation = mutation;
+  }
+}
+
+export function isApiClientError(error: unknown): error is ApiClientError {
+  return !!(error as ApiClientError)?.isApiClientError;
+}
+
+// Structural check, so it also holds for errors from a mocked axios
+function isAxiosError(error: unknown): error is AxiosError {
+  return !!(error as AxiosError)?.isAxiosError;
+}
+
+type Body = Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+// Supports { errors: { field: ["msg"] } }, { errors: [{ field, message }] }
+// and the same under `error.details`
+function extractFieldErrors(
+  body: Body | undefined
+): Record<string, string[]> | undefined {
+  const source = body?.errors ?? body?.error?.details ?? body?.error?.errors;
+  if (!source || typeof source !== "object") return undefined;
+
+  const fieldErrors: Record<string, string[]> = {};
+  if (Array.isArray(source)) {
+    source.forEach((item) => {
+      const field = item?.field ?? item?.path ?? item?.param;
+      if (typeof field !== "string") return;
+      const message = String(item.message ?? item.msg ?? "Invalid value");
+      fieldErrors[field] = [...(fieldErrors[field] ?? []), message];
+    });
+  } else {
+    Object.entries(source).forEach(([field, messages]) => {
+      fieldErrors[field] = (
+        Array.isArray(messages) ? messages : [messages]
+      ).map(String);
+    });
+  }
+
+  return Object.keys(fieldErrors).length ? fieldErrors : undefined;
+}
+
+/**
+ * Reads `{ message, code }` or `{ error: { message, code } }` style bodies.
+ */
+export const defaultErrorExtractor: ErrorExtractor = (error) => {
+  const body = error.response?.data as Body | undefined;
+  const nested = typeof body?.error === "object" ? body.error : undefined;
+
+  return {
+    message:
+      body?.message ||
+      nested?.message ||
+      (typeof body?.error === "string" ? body.error : undefined),
+    code: body?.code || nested?.code,
+    fieldErrors: extractFieldErrors(body),
+  };
+};
+
+/**
+ * Convert an AxiosError into the matching ApiClientError subclass.
+ * Anything that isn't an AxiosError is returned unchanged.
+ */
+export function toApiClientError(
+  error: unknown,
+  extractor: ErrorExtractor = defaultErrorExtractor
+): unknown {
+  if (isApiClientError(error) || !isAxiosError(error)) {
+    return error;
+  }
+
+  const extracted = { ...defaultErrorExtractor(error), ...extractor(error) };
+  const status = error.response?.status;
+  const options: ApiClientErrorOptions<ApiError> = {
+    code: extracted.code ?? error.code,
+    fieldErrors: extracted.fieldErrors,
+    status,
+    response: error.response as AxiosResponse<ApiError> | undefined,
+    config: error.config,
+    cause: error,
+  };
+  const message = extracted.message || error.message || "An error occurred";
+
+  if (error.code === "ERR_CANCELED") {
+    return new CancelledError(message, options);
+  }
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return new TimeoutError(message, options);
+  }
+  if (status === undefined) {
+    return new NetworkError(message, options);
+  }
+  if (status === 401) {
+    return new UnauthorizedError(message, options);
+  }
+  if (status === 403) {
+    return new ForbiddenError(message, options);
+  }
+  if (status === 422 || (status === 400 && extracted.fieldErrors)) {
+    return new ValidationError(message, options);
+  }
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new ApiClientError(message, options);
+}
+
+// Aborted by a signal or `cancel()`, including raw axios cancellations
+export function isCancelledError(error: unknown): boolean {
+  return (toApiClientError(error) as ApiClientError)?.kind === "cancelled";
+}
+
+// Saved to the offline queue instead of failing
+export function isQueuedMutationError(
+  error: unknown
+): error is QueuedMutationError {
+  return (error as ApiClientError)?.kind === "queued";
+}
+
+/**
+ * Message to show for a failed request.
+ */
+export function getErrorMessage(error: unknown): string {
+  const normalized = toApiClientError(error) as Partial<Error> | undefined;
+  return normalized?.message || "An error occurred";
+}
@@ -1,6 +1,74 @@
 // Core API Client
 export { ApiService } from "./services/ApiService";
-export { ApiConfig } from "./config";
+export { ApiConfig, createApiClient } from "./config";
+export { ApiClientProvider, ApiClientContext, useApiClient } from "./context";
+export { defaultRefreshStrategy } from "./config/refresh";
+
+// Errors
+export {
+  ApiClientError,
+  NetworkError,
+  TimeoutError,
+  CancelledError,
+  UnauthorizedError,
+  ForbiddenError,
+  ValidationError,
+  ServerError,
+  SchemaValidationError,
+  isApiClientError,
+  isCancelledError,
+  QueuedMutationError,
+  isQueuedMutationError,
+  toApiClientError,
+  getErrorMessage,
+  defaultErrorExtractor,
+} from "./errors";
+
+// Endpoint registry
+export { createEndpoints, endpoint, getEndpointQueryKey } from "./endpoints";
+export { createQueryKeys } from "./keys";
+export { interpolatePath } from "./utils/path";
+export { decodeJwt, getTokenExpiry } from "./utils/jwt";
+export { consoleLogger } from "./utils/logger";
+export { createTraceparent } from "./config/tracing";
+export {
+  toFormData,
+  getContentDispositionFilename,
+  saveBlob,
+} from "./utils/files";
+
+// Response validation
+export { fromZod, fromValibot, fromGuard } from "./schema";
+
+// Resumable uploads and storage
+export { ResumableUpload } from "./uploads";
+export { tusProtocol } from "./uploads/tus";
+export { memoryStorage, webStorage, indexedDBStorage } from "./storage";
+
+// Offline mutations
+export { MutationQueue } from "./offline";
+export { useMutationQueue } from "./offline/useMutationQueue";
+
+// Sessions
+export {
+  SessionManager,
+  memorySessionStore,
+  webSessionStore,
+  cookieSessionStore,
+} from "./session";
+export { useSession } from "./session/useSession";
+
+// Server-side rendering
+export { createServerClient, prefetchAndDehydrate } from "./ssr";
+
+// Pagination
+export {
+  pagePagination,
+  offsetPagination,
+  cursorPagination,
+  linkHeaderPagination,
+  parseLinkHeader,
+} from "./pagination";
 
 // Types
 export type {
@@ -9,4 +77,105 @@ export type {
   NotificationManager,
   ApiClientOptions,
   ServiceConfig,
+  RetryPolicy,
+  AuthScheme,
+  AuthCredential,
+  EnvelopeConfig,
+  EnvelopeField,
+  ResponseEnvelope,
+  RefreshStrategy,
+  RefreshContext,
+  RefreshTokens,
+  ProactiveRefreshOptions,
+  ErrorExtractor,
+  ExtractedError,
+  Middleware,
+  MiddlewareContext,
+  Logger,
+  LogLevel,
+  TracingOptions,
+  RequestEvent,
 } from "./types";
+export type { ApiClient } from "./config";
+export type { ApiClientProviderProps } from "./context";
+export type { ApiClientErrorKind, ApiClientErrorOptions } from "./errors";
+
+export type {
+  UseQueryApiProps,
+  UseMutationApiProps,
+  UseInfiniteQueryApiProps,
+  UsePaginatedQueryApiProps,
+  ApiRequestConfig,
+  ApiRequestOptions,
+  FetchQueryApiProps,
+  UploadValues,
+  UseUploadApiProps,
+  UseDownloadApiProps,
+  DownloadVariables,
+  DownloadResult,
+  TransferProgress,
+  UseResumableUploadApiProps,
+} from "./services/ApiService";
+export type { OptimisticUpdate } from "./services/optimistic";
+export type { InvalidationRule, RuleKey } from "./services/invalidation";
+export type { QueryKeys, ResourceKeys } from "./keys";
+export type { CancellablePromise } from "./services/inflight";
+export type {
+  ResumableUploadOptions,
+  ResumableUploadState,
+  ResumableUploadStatus,
+  UploadProtocol,
+  UploadSession,
+  UploadChunk,
+  UploadRequester,
+} from "./uploads";
+export type { TusProtocolOptions } from "./uploads/tus";
+export type { StorageAdapter, IndexedDBStorageOptions } from "./storage";
+export type {
+  ServerClientOptions,
+  ServerPrefetch,
+  IncomingHeaders,
+} from "./ssr";
+export type {
+  SessionOptions,
+  SessionStatus,
+  SessionStore,
+  SessionTokens,
+} from "./session";
+export type {
+  OfflineOptions,
+  QueuedMutation,
+  QueuedMutationInput,
+  QueuedMutationStatus,
+  ConflictResolution,
+  MutationQueueEvent,
+  QueueRequester,
+} from "./offline";
+
+export type {
+  QueryEndpoint,
+  MutationEndpoint,
+  EndpointDefinition,
+  EndpointHooks,
+  QueryHookArgs,
+  MutationHookArgs,
+} from "./endpoints";
+export type { PathParams, PathParamNames } from "./utils/path";
+export type { JwtPayload } from "./utils/jwt";
+export type {
+  Schema,
+  SchemaIssue,
+  SchemaResult,
+  InferSchema,
+  ZodLikeSchema,
+  ValibotLikeSafeParse,
+} from "./schema";
+export type {
+  ApiPage,
+  PageRequest,
+  PaginationStrategy,
+  PagePaginationOptions,
+  OffsetPaginationOptions,
+  CursorPaginationOptions,
+  LinkHeaderPaginationOptions,
+} from "./pagination";
@@ -0,0 +1,53 @@
+import { QueryKey } from "@tanstack/react-query";
+
+export interface ResourceKeys {
+  all: QueryKey; // [service, resource]: every query of the resource
+  lists: () => QueryKey; // Every list, whatever its filters
+  list: (filters?: unknown) => QueryKey;
+  details: () => QueryKey;
+  detail: (id: unknown) => QueryKey;
+}
+
+export type QueryKeys<TResource extends string> = {
+  all: QueryKey; // [service]: every query of the service
+} & Record<TResource, ResourceKeys>;
+
+function resourceKeys(service: string, resource: string): ResourceKeys {
+  const all = [service, resource] as const;
+  return {
+    all,
+    lists: () => [...all, "list"],
+    list: (filters) =>
+      filters === undefined ? [...all, "list"] : [...all, "list", filters],
+    details: () => [...all, "detail"],
+    detail: (id) => [...all, "detail", id],
+  };
+}
+
+/**
+ * Hierarchical query keys for the resources of a service. Each level
+ * prefixes the ones below it, so invalidating `keys.users.lists()` also
+ * invalidates every `keys.users.list(filters)`.
+ *
+ * @example
+ * const keys = createQueryKeys("api", ["users", "posts"]);
+ *
+ * keys.users.list({ role: "admin" }); // ["api", "users", "list", { role: "admin" }]
+ * keys.users.detail(1); // ["api", "users", "detail", 1]
+ */
+export function createQueryKeys<TResource extends string>(
+  service: string,
+  resources: readonly TResource[]
+): QueryKeys<TResource> {
+  const keys = { all: [service] } as QueryKeys<TResource>;
+  resources.forEach((resource) => {
+    if (resource === "all") {
+      throw new Error("'all' is reserved and cannot name a resource");
+    }
+    keys[resource] = resourceKeys(
+      service,
+      resource
+    ) as QueryKeys<TResource>[TResource];
+  });
+  return keys;
+}
@@ -0,0 +1,315 @@
+import { AxiosRequestConfig, AxiosResponse } from "axios";
+import { onlineManager, QueryClient } from "@tanstack/react-query";
+import { ApiClientError, toApiClientError } from "../errors";
+import { getDefaultStorage, StorageAdapter } from "../storage";
+import { Logger } from "../types";
+import { consoleLogger } from "../utils/logger";
+
+// Sends a replayed mutation through the named service's axios instance
+export type QueueRequester = (
+  service: string,
+  config: AxiosRequestConfig
+) => Promise<AxiosResponse>;
+
+export type QueuedMutationStatus = "pending" | "failed";
+
+/**
+ * A mutation saved while offline. Everything here is persisted, so `data`
+ * must be JSON-serializable.
+ */
+export interface QueuedMutation {
+  id: string;
+  service: string;
+  url: string; // Path params already interpolated
+  method: string;
+  data?: unknown;
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  invalidate?: unknown[][]; // Query keys to invalidate once replayed
+  createdAt: number;
+  attempts: number;
+  status: QueuedMutationStatus;
+  error?: string; // Message of the last failure
+}
+
+export type QueuedMutationInput = Pick<
+  QueuedMutation,
+  "service" | "url" | "method" | "data" | "params" | "headers" | "invalidate"
+>;
+
+/**
+ * What to do with a mutation the server rejected as conflicting: drop it,
+ * keep it as failed for the user to retry, or resend it with changes
+ * (e.g. merged data or a fresh `If-Match` header).
+ */
+export type ConflictResolution =
+  | "discard"
+  | "keep"
+  | { data?: unknown; headers?: Record<string, string> };
+
+export interface OfflineOptions {
+  storage?: StorageAdapter; // Default: localStorage when available
+  storageKey?: string; // Default "mutation-queue"
+  // Where replayed mutations invalidate their queries. Default: the one of
+  // the first mutation queued, so set it to cover mutations restored
+  // after a reload
+  queryClient?: QueryClient;
+  // Default: 409 and 412 responses
+  isConflict?: (error: ApiClientError) => boolean;
+  // Default "discard"
+  onConflict?: (
+    mutation: QueuedMutation,
+    error: ApiClientError
+  ) => ConflictResolution | Promise<ConflictResolution>;
+}
+
+export type MutationQueueEvent =
+  | { type: "restored" }
+  | { type: "queued" | "removed"; mutation: QueuedMutation }
+  | { type: "replayed"; mutation: QueuedMutation; data: unknown }
+  | { type: "failed"; mutation: QueuedMutation; error: ApiClientError };
+
+const defaultIsConflict = (error: ApiClientError) =>
+  error.status === 409 || error.status === 412;
+
+function isSerializable(data: unknown): boolean {
+  return !(
+    (typeof FormData !== "undefined" && data instanceof FormData) ||
+    (typeof Blob !== "undefined" && data instanceof Blob) ||
+    data instanceof ArrayBuffer
+  );
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Persists mutations made while offline and replays them in order once the
+ * connection is back. Replays go through the service's axios instance, so
+ * auth, refresh and retry apply as for any request.
+ */
+export class MutationQueue {
+  private readonly request: QueueRequester;
+  private readonly storage: StorageAdapter;
+  private readonly storageKey: string;
+  private readonly isConflict: (error: ApiClientError) => boolean;
+  private readonly onConflict: NonNullable<OfflineOptions["onConflict"]>;
+  private readonly logger: Logger;
+
+  private items: QueuedMutation[] = [];
+  private listeners = new Set<(event: MutationQueueEvent) => void>();
+  private flushing?: Promise<void>;
+  private queryClient?: QueryClient;
+  private readonly ready: Promise<void>;
+  private readonly unsubscribeOnline: () => void;
+
+  constructor(
+    request: QueueRequester,
+    options: OfflineOptions = {},
+    logger: Logger = consoleLogger()
+  ) {
+    this.request = request;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.storageKey = options.storageKey ?? "mutation-queue";
+    this.isConflict = options.isConflict ?? defaultIsConflict;
+    this.onConflict = options.onConflict ?? (() => "discard");
+    this.queryClient = options.queryClient;
+    this.logger = logger;
+
+    this.ready = this.restore();
+    this.unsubscribeOnline = onlineManager.subscribe((online) => {
+      if (online) this.replayInBackground();
+    });
+    this.ready.then(() => this.replayInBackground());
+  }
+
+  // Stop replaying when the connection comes back; the queue is kept
+  public destroy(): void {
+    this.unsubscribeOnline();
+    this.listeners.clear();
+  }
+
+  public getItems(): QueuedMutation[] {
+    return this.items;
+  }
+
+  public isOnline(): boolean {
+    return onlineManager.isOnline();
+  }
+
+  public subscribe(listener: (event: MutationQueueEvent) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public async enqueue(
+    input: QueuedMutationInput,
+    queryClient?: QueryClient
+  ): Promise<QueuedMutation> {
+    if (!isSerializable(input.data)) {
+      throw new TypeError("Only JSON request bodies can be queued offline");
+    }
+    if (!this.queryClient) this.queryClient = queryClient;
+
+    await this.ready;
+    const mutation: QueuedMutation = {
+      ...input,
+      id: createId(),
+      createdAt: Date.now(),
+      attempts: 0,
+      status: "pending",
+    };
+    await this.update([...this.items, mutation]);
+    this.emit({ type: "queued", mutation });
+    return mutation;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.ready;
+    const mutation = this.items.find((item) => item.id === id);
+    if (!mutation) return;
+
+    await this.update(this.items.filter((item) => item !== mutation));
+    this.emit({ type: "removed", mutation });
+  }
+
+  // Send a failed mutation again, in its original position
+  public async retry(id: string): Promise<void> {
+    await this.ready;
+    await this.update(
+      this.items.map((item) =>
+        item.id === id ? { ...item, status: "pending" as const } : item
+      )
+    );
+    return this.flush();
+  }
+
+  /**
+   * Replay pending mutations in order. Stops at the first network error and
+   * continues when the connection comes back.
+   */
+  public flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay().finally(() => {
+        this.flushing = undefined;
+      });
+    }
+    return this.flushing;
+  }
+
+  // Nobody awaits these replays, so report their failures here
+  private replayInBackground(): void {
+    this.flush().catch((error) => {
+      this.logger.error("Replaying queued mutations failed", { error });
+    });
+  }
+
+  private async replay(): Promise<void> {
+    await this.ready;
+
+    let mutation: QueuedMutation | undefined;
+    while (
+      this.isOnline() &&
+      (mutation = this.items.find((item) => item.status === "pending"))
+    ) {
+      const sent = await this.send(mutation, true);
+      if (!sent) return;
+    }
+  }
+
+  // Resolves to false when the network is still down
+  private async send(
+    mutation: QueuedMutation,
+    canResolveConflict: boolean
+  ): Promise<boolean> {
+    try {
+      const res = await this.request(mutation.service, {
+        url: mutation.url,
+        method: mutation.method,
+        data: mutation.data,
+        params: mutation.params,
+        headers: mutation.headers,
+      });
+      await this.update(this.items.filter((item) => item.id !== mutation.id));
+      mutation.invalidate?.forEach((queryKey) =>
+        this.queryClient?.invalidateQueries({ queryKey })
+      );
+      this.emit({ type: "replayed", mutation, data: res.data });
+      return true;
+    } catch (caught) {
+      const error = toApiClientError(caught) as ApiClientError;
+      const attempted = { ...mutation, attempts: mutation.attempts + 1 };
+
+      if (error.kind === "network" || error.kind === "timeout") {
+        await this.replace(attempted);
+        return false;
+      }
+
+      if (canResolveConflict && this.isConflict(error)) {
+        const resolution = await this.onConflict(attempted, error);
+        if (resolution === "discard") {
+          await this.update(
+            this.items.filter((item) => item.id !== mutation.id)
+          );
+          this.emit({ type: "removed", mutation });
+          return true;
+        }
+        if (resolution !== "keep") {
+          const resolved = {
+            ...attempted,
+            data: "data" in resolution ? resolution.data : attempted.data,
+            headers: { ...attempted.headers, ...resolution.headers },
+          };
+          await this.replace(resolved);
+          // A second conflict is left to the user
+          return this.send(resolved, false);
+        }
+      }
+
+      const failed = {
+        ...attempted,
+        status: "failed" as const,
+        error: error.message,
+      };
+      await this.replace(failed);
+      this.emit({ type: "failed", mutation: failed, error });
+      return true;
+    }
+  }
+
+  private async restore(): Promise<void> {
+    try {
+      const saved = await this.storage.getItem<QueuedMutation[]>(
+        this.storageKey
+      );
+      if (saved?.length) {
+        this.items = [...saved, ...this.items];
+        this.emit({ type: "restored" });
+      }
+    } catch {
+      // Unreadable storage, start with an empty queue
+    }
+  }
+
+  private replace(mutation: QueuedMutation): Promise<void> {
+    return this.update(
+      this.items.map((item) => (item.id === mutation.id ? mutation : item))
+    );
+  }
+
+  private async update(items: QueuedMutation[]): Promise<void> {
+    this.items = items;
+    if (items.length) {
+      await this.storage.setItem(this.storageKey, items);
+    } else {
+      await this.storage.removeItem(this.storageKey);
+    }
+  }
+
+  private emit(event: MutationQueueEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { ApiClient, ApiConfig } from "../config";
+import { useApiClient } from "../context";
+import { QueuedMutation } from ".";
+
+/**
+ * The offline mutation queue of `client` (default: the provider's, then
+ * the `ApiConfig.initialize` one) as hook state.
+ */
+export function useMutationQueue(client?: ApiClient) {
+  const contextClient = useApiClient();
+  const queue = (
+    client ??
+    contextClient ??
+    ApiConfig.getInstance()
+  ).getMutationQueue();
+  const [items, setItems] = useState<QueuedMutation[]>(
+    () => queue?.getItems() ?? []
+  );
+
+  useEffect(() => {
+    if (!queue) return undefined;
+
+    setItems(queue.getItems());
+    return queue.subscribe(() => setItems(queue.getItems()));
+  }, [queue]);
+
+  return {
+    items,
+    pending: items.filter((item) => item.status === "pending").length,
+    failed: items.filter((item) => item.status === "failed").length,
+    flush: () => queue?.flush() ?? Promise.resolve(),
+    retry: (id: string) => queue?.retry(id) ?? Promise.resolve(),
+    remove: (id: string) => queue?.remove(id) ?? Promise.resolve(),
+  };
+}
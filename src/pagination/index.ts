@@ -0,0 +1,235 @@
+import { AxiosResponse } from "axios";
+
+export interface PageRequest {
+  params?: Record<string, unknown>;
+  // Replaces the hook's url and params, e.g. a `Link` header target
+  url?: string;
+}
+
+export interface PaginationStrategy<TData, TPageParam> {
+  initialPageParam: TPageParam;
+  getRequest: (pageParam: TPageParam) => PageRequest;
+  getNextPageParam: (
+    response: AxiosResponse<TData>,
+    pageParam: TPageParam
+  ) => TPageParam | undefined;
+  getPreviousPageParam?: (
+    response: AxiosResponse<TData>,
+    pageParam: TPageParam
+  ) => TPageParam | undefined;
+}
+
+// A single fetched page, with the params needed to fetch its neighbours
+export interface ApiPage<TData, TPageParam> {
+  data: TData;
+  meta?: unknown; // The envelope's `meta`, for services that unwrap one
+  pageParam: TPageParam;
+  nextPageParam?: TPageParam;
+  previousPageParam?: TPageParam;
+}
+
+interface CountOptions<TData> {
+  limit?: number;
+  limitParam?: string;
+  // Items of a page, defaults to the body or its `data` array
+  getItems?: (data: TData) => unknown[] | undefined;
+  // Total number of items, defaults to `total` / `meta.total` in the body
+  // (or in the envelope, for services that unwrap one)
+  getTotal?: (data: TData) => number | undefined;
+}
+
+export interface PagePaginationOptions<TData> extends CountOptions<TData> {
+  pageParam?: string;
+  firstPage?: number;
+}
+
+export interface OffsetPaginationOptions<TData> extends CountOptions<TData> {
+  offsetParam?: string;
+}
+
+export interface CursorPaginationOptions<TData> {
+  cursorParam?: string;
+  limit?: number;
+  limitParam?: string;
+  // Defaults to `nextCursor` / `meta.nextCursor` in the body or envelope
+  getNextCursor?: (data: TData) => string | null | undefined;
+}
+
+export interface LinkHeaderPaginationOptions {
+  rel?: string;
+}
+
+const DEFAULT_LIMIT = 20;
+
+type Body = Record<string, any>; // eslint-disable-line @typescript-eslint/no-explicit-any
+
+function defaultItems(data: unknown): unknown[] | undefined {
+  if (Array.isArray(data)) return data;
+  const nested = (data as Body | undefined)?.data;
+  if (Array.isArray(nested)) return nested;
+  if (Array.isArray(nested?.items)) return nested.items;
+  const items = (data as Body | undefined)?.items;
+  return Array.isArray(items) ? items : undefined;
+}
+
+function defaultTotal(data: unknown): number | undefined {
+  const body = data as Body | undefined;
+  const total =
+    body?.total ?? body?.meta?.total ?? body?.data?.total ?? undefined;
+  return typeof total === "number" ? total : undefined;
+}
+
+function defaultNextCursor(data: unknown): string | undefined {
+  const body = data as Body | undefined;
+  return body?.nextCursor ?? body?.meta?.nextCursor ?? undefined;
+}
+
+// Read from the payload, then from the envelope it was unwrapped from
+function fromBodyOrEnvelope<T>(
+  response: AxiosResponse,
+  read: (body: unknown) => T | undefined
+): T | undefined {
+  return read(response.data) ?? read(response.envelope?.body);
+}
+
+function hasMore<TData>(
+  response: AxiosResponse<TData>,
+  loaded: number,
+  limit: number,
+  { getItems = defaultItems, getTotal }: CountOptions<TData>
+): boolean {
+  const { data } = response;
+  const total = getTotal
+    ? getTotal(data)
+    : fromBodyOrEnvelope(response, defaultTotal);
+  if (total !== undefined) {
+    return loaded < total;
+  }
+  // Without a total, a full page means there may be more
+  return (getItems(data)?.length ?? 0) >= limit;
+}
+
+/**
+ * `?page=1&limit=20` style pagination.
+ */
+export function pagePagination<TData = unknown>(
+  options: PagePaginationOptions<TData> = {}
+): PaginationStrategy<TData, number> {
+  const {
+    pageParam = "page",
+    limitParam = "limit",
+    limit = DEFAULT_LIMIT,
+    firstPage = 1,
+  } = options;
+
+  return {
+    initialPageParam: firstPage,
+    getRequest: (page) => ({
+      params: { [pageParam]: page, [limitParam]: limit },
+    }),
+    getNextPageParam: (response, page) =>
+      hasMore(response, (page - firstPage + 1) * limit, limit, options)
+        ? page + 1
+        : undefined,
+    getPreviousPageParam: (_response, page) =>
+      page > firstPage ? page - 1 : undefined,
+  };
+}
+
+/**
+ * `?offset=0&limit=20` style pagination.
+ */
+export function offsetPagination<TData = unknown>(
+  options: OffsetPaginationOptions<TData> = {}
+): PaginationStrategy<TData, number> {
+  const {
+    offsetParam = "offset",
+    limitParam = "limit",
+    limit = DEFAULT_LIMIT,
+  } = options;
+
+  return {
+    initialPageParam: 0,
+    getRequest: (offset) => ({
+      params: { [offsetParam]: offset, [limitParam]: limit },
+    }),
+    getNextPageParam: (response, offset) =>
+      hasMore(response, offset + limit, limit, options)
+        ? offset + limit
+        : undefined,
+    getPreviousPageParam: (_response, offset) =>
+      offset > 0 ? Math.max(offset - limit, 0) : undefined,
+  };
+}
+
+/**
+ * `?cursor=abc` style pagination, the next cursor is read from the body.
+ */
+export function cursorPagination<TData = unknown>(
+  options: CursorPaginationOptions<TData> = {}
+): PaginationStrategy<TData, string | null> {
+  const {
+    cursorParam = "cursor",
+    limitParam = "limit",
+    limit,
+    getNextCursor,
+  } = options;
+
+  return {
+    initialPageParam: null,
+    getRequest: (cursor) => ({
+      params: {
+        ...(cursor !== null ? { [cursorParam]: cursor } : {}),
+        ...(limit !== undefined ? { [limitParam]: limit } : {}),
+      },
+    }),
+    getNextPageParam: (response) =>
+      (getNextCursor
+        ? getNextCursor(response.data)
+        : fromBodyOrEnvelope(response, defaultNextCursor)) ?? undefined,
+  };
+}
+
+/**
+ * Parse an RFC 8288 `Link` header into a map of rel -> url.
+ */
+export function parseLinkHeader(
+  header: string | null | undefined
+): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+
+  const pattern = /<([^>]*)>((?:\s*;[^,<]*)*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(header)) !== null) {
+    const url = match[1];
+    const relMatch = match[2].match(/rel="?([^";]+)"?/);
+    relMatch?.[1]
+      .trim()
+      .split(/\s+/)
+      .forEach((rel) => {
+        links[rel] = url;
+      });
+  }
+
+  return links;
+}
+
+/**
+ * Follow the `Link: <...>; rel="next"` response header (GitHub style).
+ */
+export function linkHeaderPagination<TData = unknown>(
+  options: LinkHeaderPaginationOptions = {}
+): PaginationStrategy<TData, string | null> {
+  const { rel = "next" } = options;
+  const getLink = (response: AxiosResponse<TData>, name: string) =>
+    parseLinkHeader(response.headers?.link as string | undefined)[name];
+
+  return {
+    // null means "the hook's own url"
+    initialPageParam: null,
+    getRequest: (url) => (url !== null ? { url } : {}),
+    getNextPageParam: (response) => getLink(response, rel),
+    getPreviousPageParam: (response) => getLink(response, "prev"),
+  };
+}
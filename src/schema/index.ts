@@ -0,0 +1,110 @@
+export interface SchemaIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * The one thing the client needs from a validation library. Implement it
+ * by hand or wrap Zod / Valibot schemas with the adapters below.
+ */
+export interface Schema<T> {
+  validate: (input: unknown) => SchemaResult<T>;
+}
+
+export type InferSchema<TSchema> = TSchema extends Schema<infer T> ? T : never;
+
+type IssuePath = ReadonlyArray<PropertyKey | { key: unknown }>;
+
+function toIssuePath(path: IssuePath | undefined): Array<string | number> {
+  return (path ?? []).map((segment) => {
+    const key =
+      typeof segment === "object" && segment !== null ? segment.key : segment;
+    return typeof key === "number" ? key : String(key);
+  });
+}
+
+// Structural subset of a Zod schema, so Zod isn't a dependency
+export interface ZodLikeSchema<T> {
+  safeParse: (input: unknown) =>
+    | { success: true; data: T }
+    | {
+        success: false;
+        error: { issues: Array<{ path: IssuePath; message: string }> };
+      };
+}
+
+/**
+ * @example
+ * const userSchema = fromZod(z.object({ id: z.number(), name: z.string() }));
+ */
+export function fromZod<T>(schema: ZodLikeSchema<T>): Schema<T> {
+  return {
+    validate: (input) => {
+      const result = schema.safeParse(input);
+      return result.success
+        ? { success: true, data: result.data }
+        : {
+            success: false,
+            issues: result.error.issues.map((issue) => ({
+              path: toIssuePath(issue.path),
+              message: issue.message,
+            })),
+          };
+    },
+  };
+}
+
+export type ValibotLikeSafeParse<TSchema, T> = (
+  schema: TSchema,
+  input: unknown
+) =>
+  | { success: true; output: T }
+  | {
+      success: false;
+      issues: Array<{ path?: Array<{ key: unknown }>; message: string }>;
+    };
+
+/**
+ * Valibot's API is functional, so pass its `safeParse` along:
+ *
+ * @example
+ * const userSchema = fromValibot(v.object({ id: v.number() }), v.safeParse);
+ */
+export function fromValibot<TSchema, T>(
+  schema: TSchema,
+  safeParse: ValibotLikeSafeParse<TSchema, T>
+): Schema<T> {
+  return {
+    validate: (input) => {
+      const result = safeParse(schema, input);
+      return result.success
+        ? { success: true, data: result.output }
+        : {
+            success: false,
+            issues: result.issues.map((issue) => ({
+              path: toIssuePath(issue.path),
+              message: issue.message,
+            })),
+          };
+    },
+  };
+}
+
+/**
+ * Schema from a type guard, for hand-written checks.
+ */
+export function fromGuard<T>(
+  guard: (input: unknown) => input is T,
+  message = "Unexpected shape"
+): Schema<T> {
+  return {
+    validate: (input) =>
+      guard(input)
+        ? { success: true, data: input }
+        : { success: false, issues: [{ path: [], message }] },
+  };
+}
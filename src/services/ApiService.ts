@@ -1,70 +1,389 @@
-import { AxiosError } from "axios";
+import { AxiosInstance, AxiosProgressEvent, AxiosResponse } from "axios";
 import { AxiosRequestConfig } from "axios";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { ApiConfig } from "../config";
-import { ApiError } from "../types";
 import {
+  InfiniteData,
+  keepPreviousData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ApiClient, ApiConfig } from "../config";
+import { useApiClient } from "../context";
+import {
+  ApiClientError,
+  getErrorMessage,
+  isCancelledError,
+  isQueuedMutationError,
+  QueuedMutationError,
+  SchemaValidationError,
+} from "../errors";
+import { ApiPage, PaginationStrategy } from "../pagination";
+import { Schema } from "../schema";
+import {
+  ResumableUpload,
+  ResumableUploadOptions,
+  ResumableUploadState,
+} from "../uploads";
+import { getContentDispositionFilename, toFormData } from "../utils/files";
+import { interpolatePath } from "../utils/path";
+import {
+  applyOptimisticUpdate,
+  getOptimisticKeys,
+  OptimisticSnapshot,
+  OptimisticUpdate,
+  rollbackOptimisticUpdate,
+} from "./optimistic";
+import {
+  applyInvalidationRules,
+  getStaticInvalidationKeys,
+  InvalidationRule,
+} from "./invalidation";
+import {
+  CancellablePromise,
+  createSharedRequest,
+  getDedupeKey,
+  SharedRequest,
+  subscribe,
+} from "./inflight";
+import {
+  FetchQueryOptions,
   InvalidateQueryFilters,
+  QueryKey,
+  UseInfiniteQueryOptions,
   UseMutationOptions,
+  UseMutationResult,
   UseQueryOptions,
 } from "@tanstack/react-query";
 
 // Local types for hooks
-interface UseQueryApiProps<TData> {
-  key: unknown[];
-  url: string;
+export interface UseQueryApiProps<TData> {
+  key: QueryKey;
+  url: string; // May contain `:param` placeholders
+  pathParams?: Record<string, string | number>;
   enabled?: boolean;
   method?: "get" | "post";
   config?: Omit<AxiosRequestConfig, "url" | "method">;
   params?: Record<string, unknown>;
   data?: Record<string, unknown>;
-  options?: Omit<UseQueryOptions<TData, AxiosError>, "queryKey" | "queryFn">;
+  schema?: Schema<TData>; // Validates (and types) the response body
+  options?: Omit<
+    UseQueryOptions<TData, ApiClientError>,
+    "queryKey" | "queryFn"
+  >;
 }
 
-interface UseMutationApiProps<TData, TParams> {
-  keyToInvalidate?: InvalidateQueryFilters<readonly unknown[]>;
+export interface ApiRequestConfig<TData = unknown> extends AxiosRequestConfig {
+  pathParams?: Record<string, string | number>;
+  schema?: Schema<TData>; // Validates the response body
+  requestSchema?: Schema<unknown>; // Validates `data` before it is sent
+  dedupe?: boolean; // Share identical in-flight GET requests, default true
+}
+
+export type ApiRequestOptions<TData = unknown> = Omit<
+  ApiRequestConfig<TData>,
+  "url" | "method"
+>;
+
+export interface FetchQueryApiProps<TData>
+  extends Omit<UseQueryApiProps<TData>, "enabled" | "options"> {
+  options?: Omit<
+    FetchQueryOptions<TData, ApiClientError>,
+    "queryKey" | "queryFn"
+  >;
+}
+
+export type UploadValues = Record<string, unknown> | FormData;
+
+export type UseUploadApiProps<TData, TValues> = Omit<
+  UseMutationApiProps<TData, TValues>,
+  "optimistic" | "requestSchema"
+>;
+
+export interface TransferProgress {
+  loaded: number; // Bytes
+  total?: number; // Unknown without a Content-Length
+  percent?: number; // 0-100, when the total is known
+}
+
+export interface DownloadVariables {
+  pathParams?: Record<string, string | number>;
+  params?: Record<string, unknown>;
+  data?: unknown;
+}
+
+export interface DownloadResult {
+  blob: Blob;
+  filename?: string; // Needs `Access-Control-Expose-Headers` cross-origin
+}
+
+export interface UseDownloadApiProps {
   url: string;
+  pathParams?: Record<string, string | number>;
+  method?: "get" | "post";
+  config?: Omit<AxiosRequestConfig, "url" | "method">;
+  showNotification?: boolean; // Errors only, default true
+  options?: Omit<
+    UseMutationOptions<
+      DownloadResult,
+      ApiClientError,
+      DownloadVariables | void
+    >,
+    "mutationFn"
+  >;
+}
+
+export interface UseResumableUploadApiProps
+  extends Omit<ResumableUploadOptions, "file"> {
+  showNotification?: boolean; // Errors only, default true
+}
+
+function toTransferProgress({
+  loaded,
+  total,
+}: AxiosProgressEvent): TransferProgress {
+  return {
+    loaded,
+    total,
+    percent: total ? Math.round((loaded / total) * 100) : undefined,
+  };
+}
+
+// The mutation hooks' shared props, downloads may also use GET
+type MutationRequestProps<TData, TParams> = Omit<
+  UseMutationApiProps<TData, TParams>,
+  "method"
+> & { method?: string };
+
+interface MutationContext {
+  snapshot?: OptimisticSnapshot;
+  context?: unknown;
+}
+
+type QueryRequestProps<TData> = Omit<
+  UseQueryApiProps<TData>,
+  "key" | "enabled" | "options"
+>;
+
+export interface UseInfiniteQueryApiProps<TData, TPageParam>
+  extends Omit<UseQueryApiProps<TData>, "options"> {
+  pagination: PaginationStrategy<TData, TPageParam>;
+  options?: Omit<
+    UseInfiniteQueryOptions<
+      ApiPage<TData, TPageParam>,
+      ApiClientError,
+      InfiniteData<ApiPage<TData, TPageParam>, TPageParam>,
+      unknown[],
+      TPageParam
+    >,
+    | "queryKey"
+    | "queryFn"
+    | "initialPageParam"
+    | "getNextPageParam"
+    | "getPreviousPageParam"
+  >;
+}
+
+export interface UsePaginatedQueryApiProps<TData, TPageParam>
+  extends Omit<UseQueryApiProps<TData>, "options"> {
+  pagination: PaginationStrategy<TData, TPageParam>;
+  pageParam?: TPageParam; // Defaults to the strategy's first page
+  options?: Omit<
+    UseQueryOptions<ApiPage<TData, TPageParam>, ApiClientError>,
+    "queryKey" | "queryFn"
+  >;
+}
+
+export interface UseMutationApiProps<TData, TParams> {
+  keyToInvalidate?: InvalidateQueryFilters<readonly unknown[]>;
+  // Cache updates once it succeeded, e.g. invalidating lists and setting a detail
+  invalidate?: InvalidationRule<TData, TParams>[];
+  url: string; // `:param` placeholders fall back to the mutation variables
+  pathParams?: Record<string, string | number>;
   method?: "post" | "put" | "patch" | "delete";
   config?: Omit<AxiosRequestConfig, "url" | "method">;
   showNotification?: boolean; // Default true
+  optimistic?: OptimisticUpdate<TParams>;
+  schema?: Schema<TData>; // Validates the response body
+  requestSchema?: Schema<TParams>; // Validates the variables before sending
+  // Queue the mutation when offline, needs the client's `offline` option
+  offline?: boolean;
   options?: Omit<
-    UseMutationOptions<TData, AxiosError<ApiError>, TParams>,
+    UseMutationOptions<TData, ApiClientError, TParams>,
     "mutationFn"
   >;
 }
 
 export class ApiService {
-  private axiosInstance: any;
+  private readonly serviceName: string;
+  private readonly client?: ApiClient;
+  private axiosInstances = new WeakMap<ApiClient, AxiosInstance>();
+  private boundServices = new WeakMap<ApiClient, ApiService>();
+  private inFlight = new Map<string, SharedRequest<AxiosResponse>>();
+
+  /**
+   * @param client Client to use; defaults to the nearest ApiClientProvider
+   * in hooks and to the `ApiConfig.initialize` client everywhere else.
+   */
+  constructor(serviceName: string, client?: ApiClient) {
+    this.serviceName = serviceName;
+    this.client = client;
+  }
+
+  // The same service bound to another client, e.g. a request-scoped one
+  public withClient(client: ApiClient): ApiService {
+    if (client === this.client) return this;
+
+    let bound = this.boundServices.get(client);
+    if (!bound) {
+      bound = new ApiService(this.serviceName, client);
+      this.boundServices.set(client, bound);
+    }
+    return bound;
+  }
 
-  constructor(serviceName: string) {
-    const config = ApiConfig.getInstance();
-    this.axiosInstance = config.createAxiosInstance(serviceName);
+  public getClient(): ApiClient {
+    return this.client ?? ApiConfig.getInstance();
+  }
+
+  private get axiosInstance(): AxiosInstance {
+    const client = this.getClient();
+    let instance = this.axiosInstances.get(client);
+    if (!instance) {
+      instance = client.createAxiosInstance(this.serviceName);
+      this.axiosInstances.set(client, instance);
+    }
+    return instance;
+  }
+
+  // Hooks run against the provider's client unless this service is bound
+  private useResolvedService(): ApiService {
+    const contextClient = useApiClient();
+    return this.client || !contextClient
+      ? this
+      : this.withClient(contextClient);
+  }
+
+  /**
+   * Send a request through the service's axios instance (auth, refresh and
+   * retry included) and return the response body. Identical GET requests
+   * in flight share one response; `cancel()` rejects with a CancelledError.
+   */
+  public request<TData>({
+    signal,
+    dedupe = true,
+    schema,
+    ...config
+  }: ApiRequestConfig<TData>): CancellablePromise<TData> {
+    let key: string | undefined;
+    try {
+      key = dedupe
+        ? getDedupeKey({
+            ...config,
+            url: interpolatePath(config.url ?? "", config.pathParams),
+          })
+        : undefined;
+    } catch {
+      // E.g. a missing path param; `send` rejects with the same error
+    }
+
+    const existing = key ? this.inFlight.get(key) : undefined;
+    const shared =
+      existing ??
+      createSharedRequest((sharedSignal) =>
+        this.send({ ...config, signal: sharedSignal })
+      );
+    const forget = () => {
+      if (key && this.inFlight.get(key) === shared) this.inFlight.delete(key);
+    };
+    if (key && !existing) {
+      this.inFlight.set(key, shared);
+      shared.promise.then(forget, forget);
+    }
+
+    // Each caller validates against its own schema
+    return subscribe(
+      shared,
+      (res) => this.validateResponse<TData>(res, schema).data,
+      signal,
+      forget
+    );
+  }
+
+  public get<TData>(
+    url: string,
+    config?: ApiRequestOptions<TData>
+  ): CancellablePromise<TData> {
+    return this.request<TData>({ ...config, url, method: "get" });
+  }
+
+  public post<TData, TBody = unknown>(
+    url: string,
+    data?: TBody,
+    config?: ApiRequestOptions<TData>
+  ): CancellablePromise<TData> {
+    return this.request<TData>({ ...config, url, method: "post", data });
+  }
+
+  public put<TData, TBody = unknown>(
+    url: string,
+    data?: TBody,
+    config?: ApiRequestOptions<TData>
+  ): CancellablePromise<TData> {
+    return this.request<TData>({ ...config, url, method: "put", data });
+  }
+
+  public patch<TData, TBody = unknown>(
+    url: string,
+    data?: TBody,
+    config?: ApiRequestOptions<TData>
+  ): CancellablePromise<TData> {
+    return this.request<TData>({ ...config, url, method: "patch", data });
+  }
+
+  public delete<TData>(
+    url: string,
+    config?: ApiRequestOptions<TData>
+  ): CancellablePromise<TData> {
+    return this.request<TData>({ ...config, url, method: "delete" });
+  }
+
+  /**
+   * Fetch outside of React and cache the result under the same key
+   * `useQuery` would use, e.g. in route loaders.
+   */
+  public fetchQuery<TData>(
+    queryClient: QueryClient,
+    { key, options = {}, ...request }: FetchQueryApiProps<TData>
+  ): Promise<TData> {
+    return queryClient.fetchQuery<TData, ApiClientError>({
+      queryKey: [...key],
+      queryFn: ({ signal }) => this.queryRequest<TData>(request, signal),
+      staleTime: options.staleTime ?? 1000 * 60 * 5, // 5 minutes default
+      ...options,
+    });
+  }
+
+  public async prefetchQuery<TData>(
+    queryClient: QueryClient,
+    props: FetchQueryApiProps<TData>
+  ): Promise<void> {
+    // Like React Query's prefetchQuery, errors are swallowed
+    await this.fetchQuery(queryClient, props).catch(() => undefined);
   }
 
   public useQuery<TData>({
     key,
-    url,
     enabled = true,
-    method = "get",
-    config: requestConfig,
-    params,
-    data,
     options = {},
+    ...request
   }: UseQueryApiProps<TData>) {
-    const fetchData = async (): Promise<TData> => {
-      const res = await this.axiosInstance({
-        url,
-        method,
-        params,
-        data,
-        ...requestConfig,
-      });
-      return res.data;
-    };
-
-    const queryResult = useQuery<TData, AxiosError>({
+    const service = this.useResolvedService();
+    const queryResult = useQuery<TData, ApiClientError>({
       queryKey: [...key],
-      queryFn: fetchData,
+      queryFn: ({ signal }) => service.queryRequest<TData>(request, signal),
       enabled,
       staleTime: options.staleTime ?? 1000 * 60 * 5, // 5 minutes default
       ...options,
@@ -73,64 +392,556 @@ export class ApiService {
     return queryResult;
   }
 
-  public useMutation<TData, TParams = unknown>({
-    keyToInvalidate,
+  /**
+   * Infinite query; each page is fetched with the params the pagination
+   * strategy derives from the previous response.
+   */
+  public useInfiniteQuery<TData, TPageParam>({
+    key,
+    pagination,
+    enabled = true,
+    options = {},
+    ...request
+  }: UseInfiniteQueryApiProps<TData, TPageParam>) {
+    const service = this.useResolvedService();
+    return useInfiniteQuery<
+      ApiPage<TData, TPageParam>,
+      ApiClientError,
+      InfiniteData<ApiPage<TData, TPageParam>, TPageParam>,
+      unknown[],
+      TPageParam
+    >({
+      queryKey: [...key],
+      queryFn: ({ pageParam, signal }) =>
+        service.fetchPage(request, pagination, pageParam as TPageParam, signal),
+      initialPageParam: pagination.initialPageParam,
+      getNextPageParam: (lastPage) => lastPage.nextPageParam,
+      getPreviousPageParam: (firstPage) => firstPage.previousPageParam,
+      enabled,
+      staleTime: options.staleTime ?? 1000 * 60 * 5, // 5 minutes default
+      ...options,
+    });
+  }
+
+  /**
+   * Single-page query for paged tables; the page param is part of the key
+   * and the previous page stays visible while the next one loads.
+   */
+  public usePaginatedQuery<TData, TPageParam>({
+    key,
+    pagination,
+    pageParam = pagination.initialPageParam,
+    enabled = true,
+    options = {},
+    ...request
+  }: UsePaginatedQueryApiProps<TData, TPageParam>) {
+    const service = this.useResolvedService();
+    return useQuery<ApiPage<TData, TPageParam>, ApiClientError>({
+      queryKey: [...key, pageParam],
+      queryFn: ({ signal }) =>
+        service.fetchPage(request, pagination, pageParam, signal),
+      enabled,
+      placeholderData: keepPreviousData,
+      staleTime: options.staleTime ?? 1000 * 60 * 5, // 5 minutes default
+      ...options,
+    });
+  }
+
+  private async fetchPage<TData, TPageParam>(
+    {
+      url,
+      pathParams,
+      method = "get",
+      config: requestConfig,
+      params,
+      data,
+      schema,
+    }: QueryRequestProps<TData>,
+    pagination: PaginationStrategy<TData, TPageParam>,
+    pageParam: TPageParam,
+    signal?: AbortSignal
+  ): Promise<ApiPage<TData, TPageParam>> {
+    const page = pagination.getRequest(pageParam);
+    const res = await this.send<TData>({
+      url: page.url ?? url,
+      pathParams: page.url ? undefined : pathParams,
+      method,
+      params: page.url ? page.params : { ...params, ...page.params },
+      data,
+      schema,
+      signal,
+      ...requestConfig,
+    });
+
+    return {
+      data: res.data,
+      meta: res.envelope?.meta,
+      pageParam,
+      nextPageParam: pagination.getNextPageParam(res, pageParam),
+      previousPageParam: pagination.getPreviousPageParam?.(res, pageParam),
+    };
+  }
+
+  public useMutation<TData, TParams = unknown>(
+    props: UseMutationApiProps<TData, TParams>
+  ) {
+    const {
+      url,
+      pathParams,
+      method = "post",
+      config: requestConfig,
+      schema,
+      requestSchema,
+      keyToInvalidate,
+      invalidate,
+      optimistic,
+      offline,
+    } = props;
+
+    return this.useMutationRequest(props, (service, params, queryClient) => {
+      // Hook-level path params win over values taken from the variables
+      const resolvedParams =
+        params && typeof params === "object"
+          ? { ...(params as Record<string, unknown>), ...pathParams }
+          : pathParams;
+
+      const config: ApiRequestConfig<TData> = {
+        url,
+        pathParams: resolvedParams as ApiRequestConfig["pathParams"],
+        method,
+        data: params,
+        schema,
+        requestSchema: requestSchema as Schema<unknown> | undefined,
+        ...requestConfig,
+      };
+      if (!offline) return service.send(config);
+
+      // What onSuccess/onSettled would invalidate, for after the replay
+      const invalidateKeys = [
+        ...(keyToInvalidate?.queryKey ? [keyToInvalidate.queryKey] : []),
+        ...(invalidate ? getStaticInvalidationKeys(invalidate) : []),
+      ];
+      const replayKeys = invalidateKeys.length
+        ? invalidateKeys
+        : optimistic && getOptimisticKeys(optimistic, params);
+      return service.sendOrQueue(
+        config,
+        queryClient,
+        replayKeys ? replayKeys.map((key) => [...key]) : undefined
+      );
+    });
+  }
+
+  /**
+   * Multipart upload: the variables are sent as FormData and the upload
+   * progress is kept as hook state until the next upload starts.
+   */
+  public useUpload<TData, TValues extends UploadValues = UploadValues>(
+    props: UseUploadApiProps<TData, TValues>
+  ) {
+    const {
+      url,
+      pathParams,
+      method = "post",
+      config: requestConfig,
+      schema,
+    } = props;
+    const [progress, setProgress] = useState<TransferProgress | null>(null);
+    const controllerRef = useRef<AbortController>();
+
+    const mutation = this.useMutationRequest(props, (service, values) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setProgress({ loaded: 0 });
+
+      return service.send<TData>({
+        url,
+        pathParams,
+        method,
+        data: toFormData(values),
+        schema,
+        signal: controller.signal,
+        ...requestConfig,
+        onUploadProgress: (event) => {
+          setProgress(toTransferProgress(event));
+          requestConfig?.onUploadProgress?.(event);
+        },
+      });
+    });
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+    return { ...mutation, progress, cancel };
+  }
+
+  /**
+   * Download a file as a Blob, with its name taken from the
+   * `Content-Disposition` header and the progress kept as hook state.
+   */
+  public useDownload({
     url,
-    method = "post",
+    pathParams,
+    method = "get",
     config: requestConfig,
     showNotification = true,
     options,
-  }: UseMutationApiProps<TData, TParams>) {
+  }: UseDownloadApiProps) {
+    const [progress, setProgress] = useState<TransferProgress | null>(null);
+    const controllerRef = useRef<AbortController>();
+
+    const mutation = this.useMutationRequest<
+      DownloadResult,
+      DownloadVariables | void
+    >(
+      { url, pathParams, method, showNotification, options },
+      async (service, variables) => {
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setProgress({ loaded: 0 });
+
+        const res = await service.send<Blob>({
+          url,
+          pathParams: { ...pathParams, ...variables?.pathParams },
+          method,
+          params: variables?.params,
+          data: variables?.data,
+          responseType: "blob",
+          signal: controller.signal,
+          ...requestConfig,
+          onDownloadProgress: (event) => {
+            setProgress(toTransferProgress(event));
+            requestConfig?.onDownloadProgress?.(event);
+          },
+        });
+
+        return {
+          ...res,
+          data: {
+            blob: res.data,
+            filename: getContentDispositionFilename(
+              res.headers?.["content-disposition"] as string | undefined
+            ),
+          },
+        };
+      }
+    );
+
+    const cancel = useCallback(() => controllerRef.current?.abort(), []);
+    return { ...mutation, progress, cancel };
+  }
+
+  /**
+   * Chunked upload that retries failed chunks and can resume after a
+   * network drop or a reload, see ResumableUpload.
+   */
+  public createResumableUpload(
+    options: ResumableUploadOptions
+  ): ResumableUpload {
+    return new ResumableUpload((config) => this.axiosInstance(config), options);
+  }
+
+  /**
+   * `createResumableUpload` for React: `start(file)` begins an upload and
+   * its status and progress are kept as hook state. Unmounting doesn't stop
+   * the upload.
+   */
+  public useResumableUpload({
+    showNotification = true,
+    ...options
+  }: UseResumableUploadApiProps) {
+    const service = this.useResolvedService();
+    const notificationManager = service.getClient().getNotificationManager();
+    const [state, setState] = useState<ResumableUploadState>({
+      status: "idle",
+      progress: { loaded: 0 },
+    });
+    const uploadRef = useRef<{
+      upload: ResumableUpload;
+      unsubscribe: () => void;
+    }>();
+
+    useEffect(() => () => uploadRef.current?.unsubscribe(), []);
+
+    // Failures end up in the state, the returned promise never rejects
+    const run = (upload: ResumableUpload) =>
+      upload.start().catch((error) => {
+        if (
+          showNotification &&
+          notificationManager &&
+          !isCancelledError(error)
+        ) {
+          notificationManager.error(getErrorMessage(error));
+        }
+        return undefined;
+      });
+
+    const start = (file: Blob, metadata = options.metadata) => {
+      uploadRef.current?.unsubscribe();
+      const upload = service.createResumableUpload({
+        ...options,
+        file,
+        metadata,
+      });
+      uploadRef.current = { upload, unsubscribe: upload.subscribe(setState) };
+      return run(upload);
+    };
+
+    return {
+      ...state,
+      start,
+      pause: () => uploadRef.current?.upload.pause(),
+      resume: () =>
+        uploadRef.current ? run(uploadRef.current.upload) : undefined,
+      cancel: () => uploadRef.current?.upload.cancel(),
+    };
+  }
+
+  // Notifications, invalidation and optimistic updates around `sendRequest`
+  private useMutationRequest<TData, TParams>(
+    {
+      keyToInvalidate,
+      invalidate,
+      url,
+      pathParams,
+      method = "post",
+      showNotification = true,
+      optimistic,
+      offline,
+      options,
+    }: MutationRequestProps<TData, TParams>,
+    sendRequest: (
+      service: ApiService,
+      params: TParams,
+      queryClient: QueryClient
+    ) => Promise<AxiosResponse<TData>>
+  ) {
     const queryClient = useQueryClient();
-    const config = ApiConfig.getInstance();
-    const notificationManager = config.getNotificationManager();
+    const service = this.useResolvedService();
+    const notificationManager = service.getClient().getNotificationManager();
 
     const mutateData = async (params: TParams): Promise<TData> => {
-      const res = await this.axiosInstance({
-        url,
-        method,
-        data: params,
-        ...requestConfig,
-      });
+      const res = await sendRequest(service, params, queryClient);
+
+      // The message is read here, while the envelope is still around
+      const message = res.envelope
+        ? res.envelope.message
+        : (res.data as any)?.message;
+      if (showNotification && notificationManager && message) {
+        notificationManager.success(message);
+      }
 
       return res.data;
     };
 
     // Get user's callbacks before overriding
+    const userOnMutate = options?.onMutate;
     const userOnSuccess = options?.onSuccess;
     const userOnError = options?.onError;
+    const userOnSettled = options?.onSettled;
 
-    return useMutation<TData, AxiosError<ApiError>, TParams>({
-      mutationKey: [url, method],
+    const mutation = useMutation<
+      TData,
+      ApiClientError,
+      TParams,
+      MutationContext
+    >({
+      // Per endpoint: params taken from the variables are only known per call
+      mutationKey: pathParams ? [url, method, pathParams] : [url, method],
       mutationFn: mutateData,
+      // React Query would otherwise pause it in memory until back online
+      ...(offline && { networkMode: "always" as const }),
       ...options,
-      onSuccess: (data, variables, context, mutation) => {
-        // Show notification if response has message field
-        if (showNotification && notificationManager && (data as any)?.message) {
-          notificationManager.success((data as any).message);
-        }
+      onMutate: async (variables, mutationContext) => {
+        const snapshot = optimistic
+          ? await applyOptimisticUpdate(queryClient, optimistic, variables)
+          : undefined;
 
-        // Invalidate queries if needed
-        if (keyToInvalidate) {
-          queryClient.invalidateQueries(keyToInvalidate);
+        // The user's onMutate result is handed back to their callbacks as-is
+        const context = await userOnMutate?.(variables, mutationContext);
+        return { snapshot, context };
+      },
+      onSuccess: (data, variables, context, mutationContext) => {
+        // Invalidate queries if needed (optimistic mutations do it on settle)
+        if (!optimistic) {
+          if (keyToInvalidate) queryClient.invalidateQueries(keyToInvalidate);
+          if (invalidate) {
+            applyInvalidationRules(queryClient, invalidate, data, variables);
+          }
         }
 
         // Call user's callback
-        userOnSuccess?.(data, variables, context, mutation);
+        userOnSuccess?.(data, variables, context.context, mutationContext);
       },
-      onError: (error, variables, context, mutation) => {
-        // Show error notification
-        if (showNotification && notificationManager) {
-          const errorMessage =
-            error.response?.data?.message ||
-            error.message ||
-            "An error occurred";
-          notificationManager.error(errorMessage);
+      onError: (error, variables, context, mutationContext) => {
+        // A queued mutation still happens, so its optimistic update stays
+        const queued = isQueuedMutationError(error);
+        if (context?.snapshot && !queued) {
+          rollbackOptimisticUpdate(queryClient, context.snapshot);
+        }
+
+        // Show error notification, cancelling is never an error worth one
+        if (
+          showNotification &&
+          notificationManager &&
+          !isCancelledError(error) &&
+          !queued
+        ) {
+          notificationManager.error(getErrorMessage(error));
         }
 
         // Call user's callback
-        userOnError?.(error, variables, context, mutation);
+        userOnError?.(error, variables, context?.context, mutationContext);
+      },
+      onSettled: (data, error, variables, context, mutationContext) => {
+        // Reconcile optimistic data with the server, once it has the change
+        if (optimistic && !isQueuedMutationError(error)) {
+          if (keyToInvalidate) queryClient.invalidateQueries(keyToInvalidate);
+          if (invalidate && !error) {
+            applyInvalidationRules(
+              queryClient,
+              invalidate,
+              data as TData,
+              variables
+            );
+          } else if (invalidate) {
+            // Keys derived from the response need a response
+            getStaticInvalidationKeys(invalidate).forEach((queryKey) =>
+              queryClient.invalidateQueries({ queryKey })
+            );
+          }
+          if (!keyToInvalidate && !invalidate) {
+            getOptimisticKeys(optimistic, variables).forEach((queryKey) =>
+              queryClient.invalidateQueries({ queryKey })
+            );
+          }
+        }
+
+        return userOnSettled?.(
+          data,
+          error,
+          variables,
+          context?.context,
+          mutationContext
+        );
       },
     });
+
+    // Callers only ever see their own onMutate context
+    return mutation as UseMutationResult<TData, ApiClientError, TParams>;
+  }
+
+  private queryRequest<TData>(
+    {
+      url,
+      pathParams,
+      method = "get",
+      config: requestConfig,
+      params,
+      data,
+      schema,
+    }: QueryRequestProps<TData>,
+    signal?: AbortSignal
+  ): Promise<TData> {
+    return this.request<TData>({
+      url,
+      pathParams,
+      method,
+      params,
+      data,
+      schema,
+      signal,
+      ...requestConfig,
+    });
+  }
+
+  private async send<TData>({
+    url = "",
+    pathParams,
+    schema,
+    requestSchema,
+    ...config
+  }: ApiRequestConfig<TData>): Promise<AxiosResponse<TData>> {
+    if (requestSchema) {
+      config.data = this.validateRequest({ data: config.data, requestSchema });
+    }
+
+    const res = await this.axiosInstance<TData>({
+      ...config,
+      url: interpolatePath(url, pathParams),
+    });
+    return this.validateResponse(res, schema);
+  }
+
+  /**
+   * Send, or save to the client's offline queue when offline or the network
+   * fails; queued mutations reject with a QueuedMutationError. `invalidate`
+   * is applied to `queryClient` once the mutation is replayed.
+   */
+  private async sendOrQueue<TData>(
+    config: ApiRequestConfig<TData>,
+    queryClient: QueryClient,
+    invalidate?: ReadonlyArray<readonly unknown[]>
+  ): Promise<AxiosResponse<TData>> {
+    const queue = this.getClient().getMutationQueue();
+    if (!queue) {
+      throw new Error(
+        "Offline mutations need the `offline` option of the API client"
+      );
+    }
+
+    const enqueue = async (): Promise<never> => {
+      const { url = "", pathParams, method = "post", params, headers } = config;
+      const mutation = await queue.enqueue(
+        {
+          service: this.serviceName,
+          url: interpolatePath(url, pathParams),
+          method,
+          data: this.validateRequest(config),
+          params,
+          headers: headers as Record<string, string> | undefined,
+          invalidate: invalidate?.map((queryKey) => [...queryKey]),
+        },
+        queryClient
+      );
+      throw new QueuedMutationError(mutation);
+    };
+
+    if (!queue.isOnline()) return enqueue();
+
+    try {
+      return await this.send(config);
+    } catch (error) {
+      if ((error as ApiClientError).kind === "network") return enqueue();
+      throw error;
+    }
+  }
+
+  private validateRequest({
+    data,
+    requestSchema,
+  }: ApiRequestConfig<unknown>): unknown {
+    if (!requestSchema) return data;
+
+    const result = requestSchema.validate(data);
+    if (!result.success) {
+      throw new SchemaValidationError("request", result.issues);
+    }
+    return result.data;
+  }
+
+  private validateResponse<TData>(
+    res: AxiosResponse,
+    schema?: Schema<TData>
+  ): AxiosResponse<TData> {
+    if (!schema) return res;
+
+    const result = schema.validate(res.data);
+    if (!result.success) {
+      throw new SchemaValidationError("response", result.issues, {
+        status: res.status,
+        response: res as AxiosResponse,
+        config: res.config,
+      });
+    }
+    return { ...res, data: result.data };
   }
 }
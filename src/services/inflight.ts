@@ -0,0 +1,95 @@
+import { AxiosRequestConfig, GenericAbortSignal } from "axios";
+import { CancelledError } from "../errors";
+
+// What imperative calls return: a promise with a way to abort it
+export type CancellablePromise<T> = Promise<T> & { cancel: () => void };
+
+// One in-flight request, shared by every caller that asked for it
+export interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Key identical GET requests share, or undefined when the request must
+ * not be deduplicated.
+ */
+export function getDedupeKey(config: AxiosRequestConfig): string | undefined {
+  if ((config.method ?? "get").toLowerCase() !== "get") return undefined;
+
+  return JSON.stringify([
+    config.baseURL,
+    config.url,
+    config.params,
+    config.headers,
+    config.responseType,
+  ]);
+}
+
+export function createSharedRequest<T>(
+  start: (signal: AbortSignal) => Promise<T>
+): SharedRequest<T> {
+  const controller = new AbortController();
+  return { promise: start(controller.signal), controller, subscribers: 0 };
+}
+
+/**
+ * A caller's own view of a shared request. Cancelling (or aborting
+ * `signal`) rejects it with a CancelledError right away; the request
+ * itself is only aborted once every caller has cancelled.
+ */
+export function subscribe<T, TResult>(
+  shared: SharedRequest<T>,
+  select: (value: T) => TResult,
+  signal?: GenericAbortSignal,
+  onAbandoned?: () => void
+): CancellablePromise<TResult> {
+  shared.subscribers += 1;
+  let settled = false;
+  let cancel: () => void = () => undefined;
+
+  const promise = new Promise<TResult>((resolve, reject) => {
+    const release = () => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener?.("abort", cancel);
+      shared.subscribers -= 1;
+    };
+
+    cancel = () => {
+      if (settled) return;
+      release();
+      if (shared.subscribers === 0) {
+        shared.controller.abort();
+        onAbandoned?.();
+      }
+      reject(new CancelledError("Request cancelled", { code: "ERR_CANCELED" }));
+    };
+
+    shared.promise.then(
+      (value) => {
+        if (settled) return;
+        release();
+        try {
+          resolve(select(value));
+        } catch (error) {
+          reject(error);
+        }
+      },
+      (error) => {
+        if (settled) return;
+        release();
+        reject(error);
+      }
+    );
+
+    if (signal?.aborted) {
+      cancel();
+    } else {
+      signal?.addEventListener?.("abort", cancel);
+    }
+  });
+
+  return Object.assign(promise, { cancel: () => cancel() });
+}
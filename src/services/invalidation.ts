@@ -0,0 +1,86 @@
+import {
+  InvalidateQueryFilters,
+  QueryClient,
+  QueryKey,
+} from "@tanstack/react-query";
+
+// A fixed key, or one derived from the mutation's response and variables
+export type RuleKey<TData, TParams> =
+  | QueryKey
+  | ((data: TData, variables: TParams) => QueryKey);
+
+/**
+ * What a mutation does to the cache once it succeeded:
+ * - a query key: invalidate it and every query it prefixes
+ * - `{ invalidate }`: the same, with `exact` and `refetchType`
+ * - `{ setData }`: write the response (or `updater`'s result) into a query
+ */
+export type InvalidationRule<TData, TParams> =
+  | QueryKey
+  | {
+      invalidate: RuleKey<TData, TParams>;
+      exact?: boolean;
+      refetchType?: InvalidateQueryFilters["refetchType"];
+    }
+  | {
+      setData: RuleKey<TData, TParams>;
+      updater?: (oldData: unknown, data: TData, variables: TParams) => unknown;
+    };
+
+function resolveKey<TData, TParams>(
+  key: RuleKey<TData, TParams>,
+  data: TData,
+  variables: TParams
+): QueryKey {
+  return typeof key === "function" ? key(data, variables) : key;
+}
+
+/**
+ * The rules' keys that are known before the mutation ran, e.g. to
+ * invalidate after an offline mutation is replayed.
+ */
+export function getStaticInvalidationKeys<TData, TParams>(
+  rules: InvalidationRule<TData, TParams>[]
+): QueryKey[] {
+  return rules.flatMap((rule) => {
+    if (Array.isArray(rule)) return [rule];
+    if ("invalidate" in rule && typeof rule.invalidate !== "function") {
+      return [rule.invalidate];
+    }
+    return [];
+  });
+}
+
+/**
+ * Apply the rules of a mutation: cache writes first, so the invalidations
+ * that follow refetch on top of the fresh data.
+ */
+export function applyInvalidationRules<TData, TParams>(
+  queryClient: QueryClient,
+  rules: InvalidationRule<TData, TParams>[],
+  data: TData,
+  variables: TParams
+): Promise<unknown> {
+  rules.forEach((rule) => {
+    if (Array.isArray(rule) || !("setData" in rule)) return;
+    queryClient.setQueryData(
+      resolveKey(rule.setData, data, variables),
+      (oldData: unknown) =>
+        rule.updater ? rule.updater(oldData, data, variables) : data
+    );
+  });
+
+  return Promise.all(
+    rules.map((rule) => {
+      if (Array.isArray(rule)) {
+        return queryClient.invalidateQueries({ queryKey: rule });
+      }
+      if (!("invalidate" in rule)) return undefined;
+      return queryClient.invalidateQueries({
+        queryKey: resolveKey(rule.invalidate, data, variables),
+        exact: rule.exact,
+        refetchType: rule.refetchType,
+      });
+    })
+  );
+}
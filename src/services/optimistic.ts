@@ -0,0 +1,57 @@
+import { QueryClient, QueryKey } from "@tanstack/react-query";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface OptimisticUpdate<TParams, TCache = any> {
+  // Queries to update; each key also matches the queries it prefixes
+  queryKeys: QueryKey[] | ((variables: TParams) => QueryKey[]);
+  updater: (oldData: TCache | undefined, variables: TParams) => TCache;
+}
+
+export type OptimisticSnapshot = Array<[QueryKey, unknown]>;
+
+export function getOptimisticKeys<TParams>(
+  optimistic: OptimisticUpdate<TParams>,
+  variables: TParams
+): QueryKey[] {
+  return typeof optimistic.queryKeys === "function"
+    ? optimistic.queryKeys(variables)
+    : optimistic.queryKeys;
+}
+
+/**
+ * Cancel in-flight fetches of the target queries, snapshot them and write
+ * the optimistic data. Returns the snapshot for `rollbackOptimisticUpdate`.
+ */
+export async function applyOptimisticUpdate<TParams>(
+  queryClient: QueryClient,
+  optimistic: OptimisticUpdate<TParams>,
+  variables: TParams
+): Promise<OptimisticSnapshot> {
+  const queryKeys = getOptimisticKeys(optimistic, variables);
+
+  // So a refetch that resolves later can't overwrite the optimistic data
+  await Promise.all(
+    queryKeys.map((queryKey) => queryClient.cancelQueries({ queryKey }))
+  );
+
+  const snapshot = queryKeys.flatMap((queryKey) =>
+    queryClient.getQueriesData({ queryKey })
+  );
+
+  queryKeys.forEach((queryKey) => {
+    queryClient.setQueriesData({ queryKey }, (oldData: unknown) =>
+      optimistic.updater(oldData, variables)
+    );
+  });
+
+  return snapshot;
+}
+
+export function rollbackOptimisticUpdate(
+  queryClient: QueryClient,
+  snapshot: OptimisticSnapshot
+): void {
+  snapshot.forEach(([queryKey, data]) => {
+    queryClient.setQueryData(queryKey, data);
+  });
+}
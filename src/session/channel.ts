@@ -0,0 +1,82 @@
+import { SessionTokens } from "./stores";
+
+export type SessionMessage =
+  | { type: "login" | "refreshed"; tokens: SessionTokens | null }
+  | { type: "logout" | "expired" | "refresh-start" | "refresh-failed" };
+
+// Delivers messages to the other tabs of the same origin
+export interface SessionChannel {
+  post: (message: SessionMessage) => void;
+  subscribe: (listener: (message: SessionMessage) => void) => () => void;
+  close: () => void;
+}
+
+/**
+ * A BroadcastChannel where available, otherwise `storage` events on a
+ * localStorage key that is written and removed right away. Outside a
+ * browser `scope` there are no tabs, so messages are dropped: Node has a
+ * global BroadcastChannel, but it would keep the process alive and pass
+ * messages between the sessions of different requests.
+ */
+export function createSessionChannel(
+  name: string,
+  scope: (Window & typeof globalThis) | null = typeof window !== "undefined"
+    ? window
+    : null
+): SessionChannel {
+  const listeners = new Set<(message: SessionMessage) => void>();
+  const dispatch = (message: SessionMessage) =>
+    listeners.forEach((listener) => listener(message));
+  const subscribe = (listener: (message: SessionMessage) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  if (scope && typeof scope.BroadcastChannel !== "undefined") {
+    const channel = new scope.BroadcastChannel(name);
+    channel.onmessage = (event) => dispatch(event.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      subscribe,
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  if (scope?.localStorage) {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== name || !event.newValue) return;
+      try {
+        dispatch(JSON.parse(event.newValue).message);
+      } catch {
+        // Not one of ours
+      }
+    };
+    scope.addEventListener("storage", onStorage);
+    return {
+      post: (message) => {
+        try {
+          // The timestamp makes repeated messages distinct changes
+          scope.localStorage.setItem(
+            name,
+            JSON.stringify({ message, sentAt: Date.now() })
+          );
+          scope.localStorage.removeItem(name);
+        } catch {
+          // Storage full or disabled, the other tabs catch up on reload
+        }
+      },
+      subscribe,
+      close: () => {
+        listeners.clear();
+        scope.removeEventListener("storage", onStorage);
+      },
+    };
+  }
+
+  return { post: () => undefined, subscribe, close: () => listeners.clear() };
+}
@@ -0,0 +1,237 @@
+import { getLocalStorage } from "../storage";
+import { TokenManager } from "../types";
+import { createSessionChannel, SessionChannel } from "./channel";
+import {
+  memorySessionStore,
+  SessionStore,
+  SessionTokens,
+  webSessionStore,
+} from "./stores";
+
+export type SessionStatus =
+  | "anonymous" // No session, or logged out
+  | "authenticated"
+  | "refreshing" // This or another tab is refreshing the tokens
+  | "expired"; // The refresh failed, the user has to log in again
+
+export interface SessionOptions {
+  store?: SessionStore; // Default: localStorage when available, memory otherwise
+  channelName?: string; // Default "lp-api-client:session"
+  // How long to wait for another tab's refresh before refreshing here, default 10s
+  refreshTimeout?: number;
+}
+
+type RemoteRefreshResult = "refreshed" | "failed" | "timeout";
+
+function getDefaultStore(): SessionStore {
+  const localStorage = getLocalStorage();
+  return localStorage ? webSessionStore(localStorage) : memorySessionStore();
+}
+
+/**
+ * A `TokenManager` that keeps every tab of the app in one session:
+ * logins and logouts are broadcast, and only one tab refreshes the tokens
+ * while the others wait for its result. Pass it as the client's `session`.
+ *
+ * @example
+ * const session = new SessionManager({ store: webSessionStore() });
+ * ApiConfig.initialize({ services, session });
+ *
+ * session.login({ accessToken, refreshToken });
+ */
+export class SessionManager implements TokenManager {
+  // Left out in cookie mode, so refresh requests rely on the cookie
+  public readonly getRefreshToken?: () => string | null;
+  public readonly refreshTokenInCookie: boolean;
+  private readonly store: SessionStore;
+  private readonly channel: SessionChannel;
+  private readonly lockName: string;
+  private readonly refreshTimeout: number;
+  private status: SessionStatus;
+  private listeners = new Set<(status: SessionStatus) => void>();
+  private refreshing = false; // This tab is refreshing
+  private remoteRefresh?: Promise<RemoteRefreshResult>;
+  private finishRemoteRefresh?: (result: RemoteRefreshResult) => void;
+
+  constructor(options: SessionOptions = {}) {
+    const { channelName = "lp-api-client:session" } = options;
+    this.store = options.store ?? getDefaultStore();
+    this.refreshTokenInCookie = !!this.store.refreshTokenInCookie;
+    this.channel = createSessionChannel(channelName);
+    this.lockName = `${channelName}:refresh`;
+    this.refreshTimeout = options.refreshTimeout ?? 10_000;
+    this.status = this.store.load() ? "authenticated" : "anonymous";
+
+    if (!this.refreshTokenInCookie) {
+      this.getRefreshToken = () => this.store.load()?.refreshToken ?? null;
+    }
+    this.channel.subscribe((message) => {
+      switch (message.type) {
+        case "login":
+        case "refreshed":
+          this.store.save(message.tokens);
+          this.endRemoteRefresh("refreshed");
+          this.setStatus(message.tokens ? "authenticated" : "anonymous");
+          break;
+        case "logout":
+        case "expired":
+          this.store.save(null);
+          this.endRemoteRefresh("failed");
+          this.setStatus(message.type === "logout" ? "anonymous" : "expired");
+          break;
+        case "refresh-start":
+          this.startRemoteRefresh();
+          break;
+        case "refresh-failed":
+          this.endRemoteRefresh("failed");
+          break;
+      }
+    });
+  }
+
+  public getStatus(): SessionStatus {
+    return this.status;
+  }
+
+  public subscribe(listener: (status: SessionStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Start a session in every tab, e.g. after the login request
+  public login(tokens: SessionTokens): void {
+    this.store.save({ ...tokens });
+    this.setStatus("authenticated");
+    this.channel.post({ type: "login", tokens: this.store.load() });
+  }
+
+  // End the session in every tab
+  public logout(): void {
+    this.store.save(null);
+    this.setStatus("anonymous");
+    this.channel.post({ type: "logout" });
+  }
+
+  public getAccessToken(): string | null {
+    return this.store.load()?.accessToken ?? null;
+  }
+
+  public setAccessToken(accessToken: string): void {
+    this.update({ accessToken });
+  }
+
+  public setRefreshToken(refreshToken: string): void {
+    this.update({ refreshToken });
+  }
+
+  // Called by the client when a refresh failed
+  public clearTokens(): void {
+    this.store.save(null);
+    this.setStatus("expired");
+    this.channel.post({ type: "expired" });
+  }
+
+  /**
+   * Run `refresh` unless another tab is already refreshing, in which case
+   * its tokens are used. Where Web Locks are available they also keep two
+   * tabs from starting a refresh at the same moment.
+   */
+  public async coordinateRefresh(refresh: () => Promise<void>): Promise<void> {
+    const staleToken = this.getAccessToken();
+    this.setStatus("refreshing");
+
+    const remote = this.remoteRefresh && (await this.remoteRefresh);
+    if (remote === "refreshed") return;
+    if (remote === "failed") {
+      throw new Error("The session could not be refreshed in another tab");
+    }
+
+    try {
+      await this.withLock(async () => {
+        // Refreshed by another tab while this one waited for the lock
+        const accessToken = this.getAccessToken();
+        if (accessToken && accessToken !== staleToken) return;
+
+        this.refreshing = true;
+        this.channel.post({ type: "refresh-start" });
+        try {
+          await refresh();
+        } catch (error) {
+          this.channel.post({ type: "refresh-failed" });
+          throw error;
+        } finally {
+          this.refreshing = false;
+        }
+        this.channel.post({ type: "refreshed", tokens: this.store.load() });
+      });
+      this.setStatus(this.store.load() ? "authenticated" : "anonymous");
+    } catch (error) {
+      this.setStatus("expired");
+      throw error;
+    }
+  }
+
+  // Stop listening to the other tabs
+  public destroy(): void {
+    this.endRemoteRefresh("timeout");
+    this.channel.close();
+    this.listeners.clear();
+  }
+
+  private update(tokens: SessionTokens): void {
+    this.store.save({ ...this.store.load(), ...tokens });
+    // A refresh announces its tokens once it is done
+    if (!this.refreshing) {
+      this.setStatus("authenticated");
+      this.channel.post({ type: "login", tokens: this.store.load() });
+    }
+  }
+
+  private setStatus(status: SessionStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.listeners.forEach((listener) => listener(status));
+  }
+
+  private startRemoteRefresh(): void {
+    if (this.remoteRefresh) return;
+    this.setStatus("refreshing");
+    this.remoteRefresh = new Promise((resolve) => {
+      const timer = setTimeout(
+        () => this.endRemoteRefresh("timeout"),
+        this.refreshTimeout
+      );
+      this.finishRemoteRefresh = (result) => {
+        clearTimeout(timer);
+        resolve(result);
+      };
+    });
+  }
+
+  private endRemoteRefresh(result: RemoteRefreshResult): void {
+    const finish = this.finishRemoteRefresh;
+    if (!finish) return;
+    this.remoteRefresh = undefined;
+    this.finishRemoteRefresh = undefined;
+    if (result === "timeout" && !this.refreshing) {
+      this.setStatus(this.store.load() ? "authenticated" : "anonymous");
+    }
+    finish(result);
+  }
+
+  private async withLock(task: () => Promise<void>): Promise<void> {
+    const locks =
+      typeof navigator !== "undefined" ? navigator.locks : undefined;
+    if (locks) await locks.request(this.lockName, task);
+    else await task();
+  }
+}
+
+export {
+  cookieSessionStore,
+  memorySessionStore,
+  webSessionStore,
+} from "./stores";
+export type { SessionStore, SessionTokens } from "./stores";
@@ -0,0 +1,79 @@
+export interface SessionTokens {
+  accessToken?: string | null;
+  refreshToken?: string | null;
+}
+
+/**
+ * Where a session keeps its tokens. Reads are synchronous because the
+ * client reads the access token for every request. `load` returns null
+ * when there is no session.
+ */
+export interface SessionStore {
+  load: () => SessionTokens | null;
+  save: (tokens: SessionTokens | null) => void;
+  // The browser holds the refresh token in an HttpOnly cookie
+  refreshTokenInCookie?: boolean;
+}
+
+const DEFAULT_KEY = "lp-api-client:session";
+
+function readJson(storage: Storage, key: string): SessionTokens | null {
+  try {
+    const value = storage.getItem(key);
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keeps tokens for the lifetime of the page; other tabs learn about
+ * logins through the session's broadcasts.
+ */
+export function memorySessionStore(): SessionStore {
+  let tokens: SessionTokens | null = null;
+  return {
+    load: () => tokens,
+    save: (next) => {
+      tokens = next && { ...next };
+    },
+  };
+}
+
+/**
+ * Backed by `localStorage` (shared by every tab) or `sessionStorage`
+ * (one per tab).
+ */
+export function webSessionStore(
+  storage: Storage = window.localStorage,
+  key = DEFAULT_KEY
+): SessionStore {
+  return {
+    load: () => readJson(storage, key),
+    save: (tokens) => {
+      if (tokens) storage.setItem(key, JSON.stringify(tokens));
+      else storage.removeItem(key);
+    },
+  };
+}
+
+/**
+ * For refresh tokens in HttpOnly cookies: the access token stays in
+ * memory and only a marker that a session exists is stored, so a reload
+ * refreshes through the cookie instead of starting logged out.
+ */
+export function cookieSessionStore(
+  storage: Storage = window.localStorage,
+  key = DEFAULT_KEY
+): SessionStore {
+  let accessToken: string | null = null;
+  return {
+    refreshTokenInCookie: true,
+    load: () => (readJson(storage, key) ? { accessToken } : null),
+    save: (tokens) => {
+      accessToken = tokens?.accessToken ?? null;
+      if (tokens) storage.setItem(key, JSON.stringify({ cookie: true }));
+      else storage.removeItem(key);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { ApiClient, ApiConfig } from "../config";
+import { useApiClient } from "../context";
+import { SessionStatus } from ".";
+
+/**
+ * The session of `client` (default: the provider's, then the
+ * `ApiConfig.initialize` one) as hook state, kept in sync across tabs.
+ */
+export function useSession(client?: ApiClient) {
+  const contextClient = useApiClient();
+  const session = (
+    client ??
+    contextClient ??
+    ApiConfig.getInstance()
+  ).getSession();
+  if (!session) {
+    throw new Error("useSession needs a client created with a `session`");
+  }
+  const [status, setStatus] = useState<SessionStatus>(() =>
+    session.getStatus()
+  );
+
+  useEffect(() => {
+    setStatus(session.getStatus());
+    return session.subscribe(setStatus);
+  }, [session]);
+
+  return {
+    status,
+    // Still logged in while the tokens are being refreshed
+    isAuthenticated: status === "authenticated" || status === "refreshing",
+    isRefreshing: status === "refreshing",
+    isExpired: status === "expired",
+    login: session.login.bind(session),
+    logout: session.logout.bind(session),
+  };
+}
@@ -0,0 +1,145 @@
+import { dehydrate, DehydratedState, QueryClient } from "@tanstack/react-query";
+import { ApiClient, createApiClient } from "../config";
+import type { FetchQueryApiProps, ApiService } from "../services/ApiService";
+import type { SessionTokens } from "../session/stores";
+import { ApiClientOptions, TokenManager } from "../types";
+
+// Node's `IncomingMessage.headers` or a Fetch `Headers`, e.g. Next's `headers()`
+export type IncomingHeaders =
+  | Headers
+  | Record<string, string | string[] | undefined>;
+
+export interface ServerClientOptions
+  extends Omit<ApiClientOptions, "session" | "offline" | "forwardedHeaders"> {
+  headers?: IncomingHeaders; // The incoming request's
+  // Default: cookie and authorization. Only sent to the services that take
+  // forwarded headers, see `ServiceConfig.forwardedHeaders`
+  forwardHeaders?: string[];
+  // E.g. read from cookies. Without a refresh token, refreshes go through
+  // the forwarded cookie, and without that there are none. Ignored with a
+  // `tokenManager`
+  tokens?: SessionTokens;
+  // Called after a refresh or a failed one (tokens null), e.g. to set
+  // cookies on the response
+  onTokens?: (tokens: SessionTokens) => void;
+}
+
+export interface ServerPrefetch<TData = unknown>
+  extends FetchQueryApiProps<TData> {
+  service: ApiService;
+}
+
+const DEFAULT_FORWARD_HEADERS = ["cookie", "authorization"];
+
+function pickHeaders(
+  headers: IncomingHeaders,
+  names: string[]
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  names.forEach((name) => {
+    const value =
+      typeof headers.get === "function"
+        ? (headers as Headers).get(name)
+        : (headers as Record<string, string | string[] | undefined>)[
+            name.toLowerCase()
+          ];
+    if (value) picked[name] = Array.isArray(value) ? value.join(", ") : value;
+  });
+  return picked;
+}
+
+// Tokens of one incoming request, gone with it. Without a refresh token
+// they are refreshed through the forwarded cookie, if there is one
+function requestTokenManager(
+  tokens: SessionTokens,
+  hasCookie: boolean,
+  onTokens?: (tokens: SessionTokens) => void
+): TokenManager {
+  let accessToken = tokens.accessToken ?? null;
+  let refreshToken = tokens.refreshToken ?? null;
+  let notifying = false;
+  // A refresh sets both tokens in a row, report them together
+  const changed = () => {
+    if (!onTokens || notifying) return;
+    notifying = true;
+    queueMicrotask(() => {
+      notifying = false;
+      onTokens({ accessToken, refreshToken });
+    });
+  };
+
+  return {
+    refreshTokenInCookie: !refreshToken && hasCookie,
+    getAccessToken: () => accessToken,
+    setAccessToken: (token) => {
+      accessToken = token;
+      changed();
+    },
+    ...(refreshToken && {
+      getRefreshToken: () => refreshToken,
+      setRefreshToken: (token: string) => {
+        refreshToken = token;
+        changed();
+      },
+    }),
+    clearTokens: () => {
+      accessToken = null;
+      refreshToken = null;
+      changed();
+    },
+  };
+}
+
+/**
+ * A client for one server-side request: it forwards the request's cookies
+ * or auth header to the user's own services and keeps its tokens, and
+ * their refresh, to itself. Touches no browser globals; create one per
+ * request and bind services with `service.withClient(client)`.
+ *
+ * @example
+ * const client = createServerClient({
+ *   services,
+ *   headers: req.headers,
+ *   tokens: { accessToken: req.cookies.accessToken },
+ *   onTokens: ({ accessToken }) => res.setHeader("Set-Cookie", ...),
+ * });
+ */
+export function createServerClient({
+  headers,
+  forwardHeaders = DEFAULT_FORWARD_HEADERS,
+  tokens = {},
+  onTokens,
+  ...options
+}: ServerClientOptions): ApiClient {
+  const forwardedHeaders = headers
+    ? pickHeaders(headers, forwardHeaders)
+    : undefined;
+  const hasCookie = Object.keys(forwardedHeaders ?? {}).some(
+    (name) => name.toLowerCase() === "cookie"
+  );
+  return createApiClient({
+    ...options,
+    forwardedHeaders,
+    tokenManager:
+      options.tokenManager ?? requestTokenManager(tokens, hasCookie, onTokens),
+  });
+}
+
+/**
+ * Prefetch `queries` through `client` into `queryClient` and dehydrate it
+ * for `<HydrationBoundary state>`. Queries are cached under the keys
+ * `useQuery` uses, so the page renders them without fetching again;
+ * failed ones are left out and fetched on the client.
+ */
+export async function prefetchAndDehydrate(
+  client: ApiClient,
+  queries: ServerPrefetch[],
+  queryClient = new QueryClient()
+): Promise<DehydratedState> {
+  await Promise.all(
+    queries.map(({ service, ...props }) =>
+      service.withClient(client).prefetchQuery(queryClient, props)
+    )
+  );
+  return dehydrate(queryClient);
+}
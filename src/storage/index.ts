@@ -0,0 +1,125 @@
+/**
+ * Where the client persists state that must survive a reload, e.g.
+ * resumable upload progress. Values must be JSON-serializable.
+ */
+export interface StorageAdapter {
+  getItem: <T>(key: string) => Promise<T | undefined>;
+  setItem: <T>(key: string, value: T) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+}
+
+/**
+ * Keeps values for the lifetime of the page, the default when no
+ * persistent storage is available.
+ */
+export function memoryStorage(): StorageAdapter {
+  const items = new Map<string, string>();
+
+  return {
+    // Stored as JSON so callers never share references with the store
+    getItem: async (key) => {
+      const value = items.get(key);
+      return value === undefined ? undefined : JSON.parse(value);
+    },
+    setItem: async (key, value) => {
+      items.set(key, JSON.stringify(value));
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Backed by `localStorage` (or another Web Storage, e.g. `sessionStorage`).
+ */
+export function webStorage(
+  storage: Storage = window.localStorage,
+  prefix = "lp-api-client:"
+): StorageAdapter {
+  return {
+    getItem: async (key) => {
+      const value = storage.getItem(prefix + key);
+      if (value === null) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    },
+    setItem: async (key, value) => {
+      storage.setItem(prefix + key, JSON.stringify(value));
+    },
+    removeItem: async (key) => {
+      storage.removeItem(prefix + key);
+    },
+  };
+}
+
+export interface IndexedDBStorageOptions {
+  databaseName?: string; // Default "lp-api-client"
+  storeName?: string; // Default "keyval"
+}
+
+/**
+ * Backed by IndexedDB, for larger values than localStorage allows.
+ */
+export function indexedDBStorage(
+  options: IndexedDBStorageOptions = {}
+): StorageAdapter {
+  const { databaseName = "lp-api-client", storeName = "keyval" } = options;
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () =>
+        request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const request = operation(
+        db.transaction(storeName, mode).objectStore(storeName)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: (key) => run("readonly", (store) => store.get(key)),
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+  };
+}
+
+// The browser's localStorage, if there is one and it may be used
+export function getLocalStorage(): Storage | undefined {
+  try {
+    if (typeof window !== "undefined" && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch {
+    // Access to localStorage can throw, e.g. with cookies disabled
+  }
+  return undefined;
+}
+
+// localStorage when the environment has it, memory otherwise (SSR, tests)
+export function getDefaultStorage(): StorageAdapter {
+  const localStorage = getLocalStorage();
+  return localStorage ? webStorage(localStorage) : memoryStorage();
+}
@@ -0,0 +1,132 @@
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import {
+  render,
+  renderHook,
+  RenderHookOptions,
+  RenderHookResult,
+  RenderOptions,
+  RenderResult,
+} from "@testing-library/react";
+import { ReactElement, ReactNode } from "react";
+import { ApiClient, ApiConfig } from "../config";
+import { ApiClientProvider } from "../context";
+import { ApiClientOptions, ServiceConfig } from "../types";
+import { createMockAdapter, MockAdapter, withMockAdapter } from "./mockAdapter";
+
+export interface ApiClientTestOptions {
+  // Service names, or full configs; every service is answered by `mock`
+  services: string[] | Record<string, ServiceConfig>;
+  clientOptions?: Omit<ApiClientOptions, "services">;
+  mock?: MockAdapter; // Default: a new, empty one
+  queryClient?: QueryClient; // Default: createTestQueryClient()
+}
+
+export interface ApiClientTestContext {
+  client: ApiClient;
+  queryClient: QueryClient;
+  mock: MockAdapter;
+  wrapper: (props: { children?: ReactNode }) => ReactElement;
+}
+
+// No retries, so failures surface right away
+export function createTestQueryClient(): QueryClient {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false, gcTime: Infinity },
+      mutations: { retry: false },
+    },
+  });
+}
+
+/**
+ * Initialize `ApiConfig` against a mock adapter and return a wrapper that
+ * provides it with a fresh QueryClient. Call `ApiConfig.reset()` after
+ * each test.
+ */
+export function setupApiClient({
+  services,
+  clientOptions,
+  mock = createMockAdapter(),
+  queryClient = createTestQueryClient(),
+}: ApiClientTestOptions): ApiClientTestContext {
+  const serviceConfigs = Array.isArray(services)
+    ? Object.fromEntries(
+        services.map((name) => [name, { baseURL: `https://${name}.test` }])
+      )
+    : services;
+
+  ApiConfig.initialize(
+    withMockAdapter({ ...clientOptions, services: serviceConfigs }, mock)
+  );
+  const client = ApiConfig.getInstance();
+
+  const wrapper = ({ children }: { children?: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <ApiClientProvider client={client}>{children}</ApiClientProvider>
+    </QueryClientProvider>
+  );
+
+  return { client, queryClient, mock, wrapper };
+}
+
+/**
+ * `render` from Testing Library, with the API client set up by
+ * `setupApiClient`.
+ *
+ * @example
+ * const { mock } = renderWithApiClient(<Users />, { services: ["api"] });
+ */
+export function renderWithApiClient(
+  ui: ReactElement,
+  options: ApiClientTestOptions & Omit<RenderOptions, "wrapper">
+): RenderResult & ApiClientTestContext {
+  const { services, clientOptions, mock, queryClient, ...renderOptions } =
+    options;
+  const context = setupApiClient({
+    services,
+    clientOptions,
+    mock,
+    queryClient,
+  });
+  return {
+    ...render(ui, { ...renderOptions, wrapper: context.wrapper }),
+    ...context,
+  };
+}
+
+// `renderHook` counterpart of renderWithApiClient
+export function renderHookWithApiClient<TResult, TProps>(
+  hook: (props: TProps) => TResult,
+  options: ApiClientTestOptions & Omit<RenderHookOptions<TProps>, "wrapper">
+): RenderHookResult<TResult, TProps> & ApiClientTestContext {
+  const { services, clientOptions, mock, queryClient, ...renderOptions } =
+    options;
+  const context = setupApiClient({
+    services,
+    clientOptions,
+    mock,
+    queryClient,
+  });
+  return {
+    ...renderHook(hook, { ...renderOptions, wrapper: context.wrapper }),
+    ...context,
+  };
+}
+
+export {
+  MockAdapter,
+  createMockAdapter,
+  withMockAdapter,
+  expectRequest,
+} from "./mockAdapter";
+export type {
+  MockRequest,
+  MockResponse,
+  MockReply,
+  MockMethod,
+  MockRoute,
+  MockRouteOptions,
+  MockAdapterOptions,
+  RequestFilter,
+  ExpectedRequest,
+} from "./mockAdapter";
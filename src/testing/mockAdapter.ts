@@ -0,0 +1,434 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { ApiClientOptions } from "../types";
+import { replacePathParams } from "../utils/path";
+
+/**
+ * A request the mock adapter received, with the JSON body parsed and the
+ * query string merged into `params`.
+ */
+export interface MockRequest {
+  service: string;
+  method: string; // Lowercase, as axios sends it
+  url: string; // Path relative to the service's base URL, no query string
+  pathParams: Record<string, string>; // From the route's `:param` placeholders
+  params: Record<string, unknown>;
+  data: unknown;
+  headers: Record<string, string>;
+  config: InternalAxiosRequestConfig;
+}
+
+export interface MockResponse {
+  status?: number; // Default 200
+  data?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockReply =
+  | MockResponse
+  | ((request: MockRequest) => MockResponse | Promise<MockResponse>);
+
+export type MockMethod = "get" | "post" | "put" | "patch" | "delete" | "any";
+
+export interface MockRouteOptions {
+  service?: string; // Default: any service
+  params?: Record<string, unknown>; // Query params the request must include
+  data?: unknown; // Body fields the request must include
+  match?: (request: MockRequest) => boolean;
+}
+
+export interface MockAdapterOptions {
+  delay?: number; // Milliseconds before every response, default 0
+}
+
+type Outcome =
+  | { type: "reply"; reply: MockReply }
+  | { type: "networkError" }
+  | { type: "timeout" };
+
+interface Handler {
+  method: MockMethod;
+  route: string | RegExp;
+  options: MockRouteOptions;
+  outcome: Outcome;
+  delay?: number;
+  times?: number; // Uses left, unlimited when undefined
+}
+
+/**
+ * How a matched route responds; every method returns the adapter so
+ * routes can be chained.
+ */
+export interface MockRoute {
+  reply: (status: number | MockReply, data?: unknown) => MockAdapter;
+  replyOnce: (status: number | MockReply, data?: unknown) => MockAdapter;
+  networkError: () => MockAdapter;
+  timeout: () => MockAdapter;
+  delay: (ms: number) => MockRoute;
+}
+
+export interface RequestFilter {
+  service?: string;
+  method?: MockMethod;
+  url?: string | RegExp; // A route, `:param` placeholders match any segment
+}
+
+export interface ExpectedRequest {
+  params?: Record<string, unknown>;
+  data?: unknown;
+  headers?: Record<string, string>;
+  times?: number; // Exact count, default: at least once
+}
+
+function matchRoute(
+  route: string | RegExp,
+  url: string
+): Record<string, string> | null {
+  if (route instanceof RegExp) {
+    const match = url.match(route);
+    return match ? { ...match.groups } : null;
+  }
+
+  // The same placeholders as `interpolatePath`, whole segments only
+  const names: string[] = [];
+  const pattern = replacePathParams(
+    route.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    (name) => {
+      names.push(name);
+      return "([^/]+)";
+    }
+  );
+  const match = url.match(new RegExp(`^${pattern}/?$`));
+  if (!match) return null;
+
+  return Object.fromEntries(
+    names.map((name, index) => [name, decodeURIComponent(match[index + 1])])
+  );
+}
+
+// Every key of `expected` has an equal value in `actual`, recursively
+function includes(actual: unknown, expected: unknown): boolean {
+  if (expected && typeof expected === "object") {
+    if (!actual || typeof actual !== "object") return false;
+    return Object.entries(expected).every(([key, value]) =>
+      includes((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return String(actual) === String(expected);
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function toMockRequest(
+  service: string,
+  config: InternalAxiosRequestConfig
+): MockRequest {
+  // Absolute URLs (e.g. upload locations) are matched by their path
+  const url = new URL(config.url ?? "", "http://mock.local");
+
+  return {
+    service,
+    method: (config.method ?? "get").toLowerCase(),
+    url: url.pathname,
+    pathParams: {},
+    params: {
+      ...Object.fromEntries(url.searchParams),
+      ...config.params,
+    },
+    data: parseBody(config.data),
+    headers: Object.fromEntries(
+      Object.entries(config.headers?.toJSON?.() ?? config.headers ?? {}).map(
+        ([key, value]) => [key, String(value)]
+      )
+    ),
+    config,
+  };
+}
+
+function describeRequest({ method, url, service }: MockRequest): string {
+  return `${method.toUpperCase()} ${url} (${service})`;
+}
+
+function wait(ms: number, config: InternalAxiosRequestConfig): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.("abort", onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * In-memory stand-in for the network: routes are matched by service,
+ * method and path, and every request is recorded for assertions.
+ * Routes added later take precedence.
+ *
+ * @example
+ * const mock = createMockAdapter();
+ * mock.onGet("/users/:id").reply(200, { id: 1 });
+ * mock.onPost("/users", { service: "admin" }).replyOnce(409);
+ * mock.onDelete("/users/:id").networkError();
+ */
+export class MockAdapter {
+  public readonly history: MockRequest[] = [];
+  private handlers: Handler[] = [];
+  private readonly delay: number;
+
+  constructor(options: MockAdapterOptions = {}) {
+    this.delay = options.delay ?? 0;
+  }
+
+  public on(
+    method: MockMethod,
+    route: string | RegExp,
+    options: MockRouteOptions = {}
+  ): MockRoute {
+    let delay: number | undefined;
+    const settle = (outcome: Outcome, times?: number) => {
+      this.handlers.unshift({ method, route, options, outcome, delay, times });
+      return this;
+    };
+    const toReply = (status: number | MockReply, data?: unknown) =>
+      typeof status === "number" ? { status, data } : status;
+
+    const mockRoute: MockRoute = {
+      reply: (status, data) =>
+        settle({ type: "reply", reply: toReply(status, data) }),
+      replyOnce: (status, data) =>
+        settle({ type: "reply", reply: toReply(status, data) }, 1),
+      networkError: () => settle({ type: "networkError" }),
+      timeout: () => settle({ type: "timeout" }),
+      delay: (ms) => {
+        delay = ms;
+        return mockRoute;
+      },
+    };
+    return mockRoute;
+  }
+
+  public onGet(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("get", route, options);
+  }
+
+  public onPost(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("post", route, options);
+  }
+
+  public onPut(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("put", route, options);
+  }
+
+  public onPatch(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("patch", route, options);
+  }
+
+  public onDelete(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("delete", route, options);
+  }
+
+  public onAny(route: string | RegExp, options?: MockRouteOptions) {
+    return this.on("any", route, options);
+  }
+
+  // The axios adapter for one service, see `withMockAdapter`
+  public adapter(service: string): AxiosAdapter {
+    return (config) => this.handle(service, config);
+  }
+
+  // Recorded requests, optionally only those matching `filter`
+  public getRequests(filter: RequestFilter = {}): MockRequest[] {
+    return this.history.filter(
+      (request) =>
+        (!filter.service || filter.service === request.service) &&
+        (!filter.method ||
+          filter.method === "any" ||
+          filter.method === request.method) &&
+        (!filter.url || matchRoute(filter.url, request.url) !== null)
+    );
+  }
+
+  // Forget the recorded requests, keep the routes
+  public resetHistory(): void {
+    this.history.length = 0;
+  }
+
+  // Forget both routes and recorded requests
+  public reset(): void {
+    this.handlers = [];
+    this.resetHistory();
+  }
+
+  private find(request: MockRequest) {
+    for (const handler of this.handlers) {
+      const { method, route, options } = handler;
+      if (method !== "any" && method !== request.method) continue;
+      if (options.service && options.service !== request.service) continue;
+
+      const pathParams = matchRoute(route, request.url);
+      if (!pathParams) continue;
+
+      const matched = { ...request, pathParams };
+      if (options.params && !includes(matched.params, options.params)) continue;
+      if (options.data !== undefined && !includes(matched.data, options.data)) {
+        continue;
+      }
+      if (options.match && !options.match(matched)) continue;
+
+      return { handler, request: matched };
+    }
+    return undefined;
+  }
+
+  private async handle(
+    service: string,
+    config: InternalAxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    const received = toMockRequest(service, config);
+    const found = this.find(received);
+    const request = found?.request ?? received;
+    this.history.push(request);
+
+    await wait(found?.handler.delay ?? this.delay, config);
+
+    if (!found) {
+      const response = this.toResponse(config, {
+        status: 404,
+        data: { message: `No mock for ${describeRequest(request)}` },
+      });
+      throw this.toError(response);
+    }
+
+    const { handler } = found;
+    if (handler.times !== undefined && --handler.times === 0) {
+      this.handlers = this.handlers.filter((item) => item !== handler);
+    }
+
+    const { outcome } = handler;
+    if (outcome.type === "networkError") {
+      throw new AxiosError(
+        "Network Error",
+        AxiosError.ERR_NETWORK,
+        config,
+        request
+      );
+    }
+    if (outcome.type === "timeout") {
+      throw new AxiosError(
+        `timeout of ${config.timeout ?? 0}ms exceeded`,
+        AxiosError.ECONNABORTED,
+        config,
+        request
+      );
+    }
+
+    const reply =
+      typeof outcome.reply === "function"
+        ? await outcome.reply(request)
+        : outcome.reply;
+    const response = this.toResponse(config, reply);
+
+    const validateStatus = config.validateStatus;
+    if (validateStatus && !validateStatus(response.status)) {
+      throw this.toError(response);
+    }
+    return response;
+  }
+
+  private toResponse(
+    config: InternalAxiosRequestConfig,
+    { status = 200, data, headers = {} }: MockResponse
+  ): AxiosResponse {
+    return { data, status, statusText: "", headers, config };
+  }
+
+  private toError(response: AxiosResponse): AxiosError {
+    return new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500
+        ? AxiosError.ERR_BAD_RESPONSE
+        : AxiosError.ERR_BAD_REQUEST,
+      response.config,
+      undefined,
+      response
+    );
+  }
+}
+
+export function createMockAdapter(options?: MockAdapterOptions): MockAdapter {
+  return new MockAdapter(options);
+}
+
+/**
+ * Client options with every service's requests going to `mock`.
+ */
+export function withMockAdapter(
+  options: ApiClientOptions,
+  mock: MockAdapter
+): ApiClientOptions {
+  return {
+    ...options,
+    services: Object.fromEntries(
+      Object.entries(options.services).map(([name, service]) => [
+        name,
+        {
+          ...service,
+          config: { ...service.config, adapter: mock.adapter(name) },
+        },
+      ])
+    ),
+  };
+}
+
+/**
+ * Throws unless `mock` received a matching request, listing what it did
+ * receive. Works with any test runner.
+ *
+ * @example
+ * expectRequest(mock, { method: "post", url: "/users" }, { data: { name: "Ada" } });
+ */
+export function expectRequest(
+  mock: MockAdapter,
+  filter: RequestFilter,
+  expected: ExpectedRequest = {}
+): MockRequest[] {
+  const requests = mock
+    .getRequests(filter)
+    .filter(
+      (request) =>
+        (!expected.params || includes(request.params, expected.params)) &&
+        (expected.data === undefined ||
+          includes(request.data, expected.data)) &&
+        (!expected.headers || includes(request.headers, expected.headers))
+    );
+
+  const { times } = expected;
+  if (times === undefined ? requests.length === 0 : requests.length !== times) {
+    const wanted = [filter.method?.toUpperCase() ?? "ANY", filter.url ?? "*"];
+    const received = mock.history.map(describeRequest).join("\n  ") || "none";
+    throw new Error(
+      `Expected ${times ?? "at least 1"} request(s) to ${wanted.join(" ")}` +
+        ` matching ${JSON.stringify(expected)}, got ${requests.length}.\n` +
+        `Received:\n  ${received}`
+    );
+  }
+  return requests;
+}
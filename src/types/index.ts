@@ -1,4 +1,13 @@
-import { CreateAxiosDefaults } from "axios";
+import {
+  AxiosError,
+  AxiosResponse,
+  CreateAxiosDefaults,
+  InternalAxiosRequestConfig,
+  Method,
+} from "axios";
+import type { ApiClientError } from "../errors";
+import type { OfflineOptions } from "../offline";
+import type { SessionManager } from "../session";
 
 export interface ApiError {
   success: boolean;
@@ -14,6 +23,8 @@ export interface TokenManager {
   // Optional refresh token methods
   getRefreshToken?: () => string | null;
   setRefreshToken?: (token: string) => void;
+  // Refresh through an HttpOnly cookie, without a stored refresh token
+  refreshTokenInCookie?: boolean;
 }
 
 export interface NotificationManager {
@@ -24,12 +35,217 @@ export interface NotificationManager {
 export interface ApiClientOptions {
   services: Record<string, ServiceConfig>;
   tokenManager?: TokenManager;
+  // Multi-tab session, also the tokenManager unless one is given
+  session?: SessionManager;
   notificationManager?: NotificationManager;
   onUnauthorized?: () => void;
+  refreshStrategy?: RefreshStrategy; // Defaults to the built-in envelope
+  proactiveRefresh?: boolean | ProactiveRefreshOptions; // Off by default
+  errorExtractor?: ErrorExtractor; // Reads message/code/field errors from error bodies
+  offline?: boolean | OfflineOptions; // Queue `offline` mutations, off by default
+  middleware?: Middleware[]; // Run for every service, before its own
+  logger?: Logger; // Default: console, warnings and errors only
+  tracing?: TracingOptions;
+  // The user's own headers, e.g. the incoming request's cookies during SSR.
+  // Sent below a request's own, and only to the services that take them
+  // (see `ServiceConfig.forwardedHeaders`) and their token refresh
+  forwardedHeaders?: Record<string, string>;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// Structured logging; wrap pino, winston... to match
+export interface Logger {
+  debug: (message: string, context?: Record<string, unknown>) => void;
+  info: (message: string, context?: Record<string, unknown>) => void;
+  warn: (message: string, context?: Record<string, unknown>) => void;
+  error: (message: string, context?: Record<string, unknown>) => void;
+}
+
+export interface TracingOptions {
+  onEvent?: (event: RequestEvent) => void;
+  // Send a W3C `traceparent` header; a function returning the active
+  // traceparent (e.g. from OpenTelemetry) continues that trace
+  traceparent?: boolean | (() => string | undefined);
+}
+
+interface RequestEventBase {
+  requestId: string; // Shared by the retries of a request
+  service: string;
+  method: string; // Uppercase
+  url: string;
+  traceId?: string; // With `traceparent`
+  timestamp: number;
+}
+
+/**
+ * Lifecycle of a request: `start`, then any `retry` and `refresh` (time
+ * spent waiting for a token refresh), then `end` with the final status.
+ * Durations are in milliseconds.
+ */
+export type RequestEvent = RequestEventBase &
+  (
+    | { type: "start" }
+    | { type: "retry"; attempt: number; delay: number; status?: number }
+    | { type: "refresh"; duration: number }
+    | {
+        type: "end";
+        duration: number;
+        attempts: number;
+        status?: number;
+        error?: unknown;
+      }
+  );
+
+export interface ExtractedError {
+  message?: string;
+  code?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+export type ErrorExtractor = (error: AxiosError) => ExtractedError;
+
+export interface ProactiveRefreshOptions {
+  // Refresh when the access token expires within this many seconds, default 30
+  skew?: number;
+}
+
+export interface RefreshTokens {
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+export interface RefreshContext {
+  refreshToken: string | null; // null when the refresh token lives in a cookie
+  tokenManager: TokenManager;
+}
+
+export interface RefreshStrategy {
+  // Whether a failed request should trigger a refresh and be retried
+  shouldRefresh?: (error: AxiosError) => boolean;
+  // Service whose `refreshEndpoint` is called, default: the first that has one
+  service?: string;
+  buildRequestBody?: (refreshToken: string | null) => unknown;
+  extractTokens?: (response: AxiosResponse) => RefreshTokens;
+  // Fully custom refresh call, replaces the request to `refreshEndpoint`
+  refresh?: (context: RefreshContext) => Promise<RefreshTokens>;
 }
 
 export interface ServiceConfig {
   baseURL: string;
   config?: Omit<CreateAxiosDefaults, "baseURL">; // Use Axios's built-in config type
   refreshEndpoint?: string; // Just the endpoint URL for refresh, e.g., "/auth/refresh"
+  retry?: RetryPolicy | boolean; // true = default policy, off by default
+  envelope?: EnvelopeConfig | boolean; // true = the `ApiError` shape, off by default
+  middleware?: Middleware[]; // Run after the client's middleware
+  auth?: AuthScheme; // Default: bearer with the client's tokenManager
+  // Take the client's `forwardedHeaders`. Default: only with the client's
+  // tokenManager; never with schemes other than bearer
+  forwardedHeaders?: boolean;
+}
+
+// A value, or a function read on every request (null skips the credential)
+export type AuthCredential = string | (() => string | null);
+
+/**
+ * How a service authenticates its requests. Only `bearer` services
+ * refresh tokens; a service with its own token manager refreshes it at its
+ * own `refreshEndpoint`, or else the client's.
+ */
+export type AuthScheme =
+  | { type: "bearer"; tokenManager?: TokenManager } // Default: the client's
+  | {
+      type: "apiKey";
+      key: AuthCredential;
+      header?: string; // Default "X-API-Key"
+      query?: string; // Send as this query parameter instead of a header
+    }
+  | { type: "basic"; username: AuthCredential; password: AuthCredential }
+  | {
+      // E.g. HMAC signatures; runs on every attempt, after middleware.
+      // `data` is serialized by axios afterwards, except on retries
+      type: "custom";
+      sign: (
+        config: InternalAxiosRequestConfig
+      ) => MaybePromise<InternalAxiosRequestConfig | void>;
+    }
+  | { type: "none" };
+
+// A key or dotted path into the response body, or a function reading it
+export type EnvelopeField<T> = string | ((body: any) => T | undefined);
+
+export interface EnvelopeConfig {
+  data?: EnvelopeField<unknown>; // The payload hooks return, default "data"
+  message?: EnvelopeField<string>; // Shown by mutation notifications, default "message"
+  success?: EnvelopeField<boolean>; // `false` rejects even a 2xx, default "success"
+  error?: EnvelopeField<unknown>; // Message or `{ message, code }`, default "error"
+  meta?: EnvelopeField<unknown>; // Totals, cursors..., default "meta"
+}
+
+// What was left of the body after unwrapping, on `response.envelope`
+export interface ResponseEnvelope {
+  body: unknown;
+  message?: string;
+  success?: boolean;
+  error?: unknown;
+  meta?: unknown;
+}
+
+export interface MiddlewareContext {
+  service: string;
+  // A response to resolve with instead of sending the request
+  respond: (
+    data: unknown,
+    init?: { status?: number; headers?: Record<string, string> }
+  ) => AxiosResponse;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Cross-cutting request/response behavior. `onRequest` runs on every
+ * attempt, after the auth header is set; returning `context.respond(...)`
+ * skips the network. `onResponse` and `onError` see the final outcome,
+ * after refresh, retry and envelope unwrapping; `onError` may recover by
+ * returning a response. Requests pass the client's middleware first and
+ * responses the service's first.
+ */
+export interface Middleware {
+  name?: string;
+  onRequest?: (
+    config: InternalAxiosRequestConfig,
+    context: MiddlewareContext
+  ) => MaybePromise<InternalAxiosRequestConfig | AxiosResponse | void>;
+  onResponse?: (
+    response: AxiosResponse,
+    context: MiddlewareContext
+  ) => MaybePromise<AxiosResponse | void>;
+  onError?: (
+    error: ApiClientError,
+    context: MiddlewareContext
+  ) => MaybePromise<AxiosResponse | void>;
+}
+
+export interface RetryPolicy {
+  maxAttempts?: number; // Total attempts including the first, default 3
+  baseDelay?: number; // First backoff delay in ms, doubled on every retry
+  maxDelay?: number; // Backoff cap in ms, also the longest Retry-After honored
+  jitter?: boolean; // Randomize delays (full jitter), default true
+  retryOn?: number[]; // Retryable statuses, default 408, 429, 500, 502, 503, 504
+  methods?: Method[]; // Default: idempotent methods only
+  retryNetworkErrors?: boolean; // Default true
+}
+
+// Per-request overrides, e.g. `config: { retry: false }`
+declare module "axios" {
+  interface AxiosRequestConfig {
+    retry?: RetryPolicy | boolean;
+    // Don't wait for or trigger a token refresh, e.g. for calls made by a
+    // custom `refreshStrategy.refresh`
+    skipTokenRefresh?: boolean;
+  }
+
+  interface AxiosResponse {
+    envelope?: ResponseEnvelope; // Set when the service has an `envelope`
+  }
 }
@@ -0,0 +1,462 @@
+import { AxiosRequestConfig, AxiosResponse } from "axios";
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from "../config/retry";
+import { CancelledError, isCancelledError } from "../errors";
+import type { TransferProgress } from "../services/ApiService";
+import { getDefaultStorage, StorageAdapter } from "../storage";
+import { RetryPolicy } from "../types";
+import { tusProtocol } from "./tus";
+
+// Sends protocol requests through the service's axios instance
+export type UploadRequester = <T = unknown>(
+  config: AxiosRequestConfig
+) => Promise<AxiosResponse<T>>;
+
+export interface UploadSession {
+  request: UploadRequester;
+  file: Blob;
+  metadata: Record<string, string>;
+  uploadUrl: string;
+  signal: AbortSignal;
+}
+
+export interface UploadChunk extends UploadSession {
+  chunk: Blob;
+  index: number;
+  offset: number; // Position of the chunk in the file, in bytes
+  onProgress: (loaded: number) => void;
+}
+
+/**
+ * How chunks reach the server. `tusProtocol()` is built in; implement this
+ * for other resumable APIs, e.g. chunk-numbered multipart uploads.
+ */
+export interface UploadProtocol {
+  // Chunks must be sent one at a time and in order, e.g. offset based
+  sequential?: boolean;
+  // Start an upload and return the URL its chunks are sent to
+  create: (
+    session: Omit<UploadSession, "uploadUrl"> & { url: string }
+  ) => Promise<string>;
+  // Bytes the server already stored, asked before resuming
+  getOffset?: (session: UploadSession) => Promise<number>;
+  uploadChunk: (chunk: UploadChunk) => Promise<void>;
+  // Runs once every chunk is stored, its result is the upload's result
+  complete?: (session: UploadSession) => Promise<unknown>;
+  // Drop a cancelled upload on the server
+  abort?: (session: UploadSession) => Promise<void>;
+}
+
+export interface ResumableUploadOptions {
+  file: Blob;
+  url: string; // Where uploads are created
+  metadata?: Record<string, string>;
+  protocol?: UploadProtocol; // Default: tusProtocol()
+  chunkSize?: number; // Bytes, default 5 MB
+  concurrency?: number; // Chunks in flight, default 3 (1 for sequential protocols)
+  retry?: Pick<
+    RetryPolicy,
+    "maxAttempts" | "baseDelay" | "maxDelay" | "jitter" | "retryOn"
+  >; // Per chunk
+  storage?: StorageAdapter; // Default: localStorage when available
+  fingerprint?: string; // Identifies the upload across reloads
+}
+
+export type ResumableUploadStatus =
+  | "idle"
+  | "uploading"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface ResumableUploadState {
+  status: ResumableUploadStatus;
+  progress: TransferProgress;
+  error?: unknown;
+  result?: unknown;
+}
+
+// What is persisted between attempts
+interface SavedUpload {
+  uploadUrl: string;
+  chunkSize: number;
+  completed: number[]; // Chunk indexes, for parallel protocols
+}
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+function getFingerprint(file: Blob, url: string): string {
+  const name = (file as File).name ?? "blob";
+  const lastModified = (file as File).lastModified ?? "";
+  return [url, name, file.size, file.type, lastModified].join(":");
+}
+
+function isRetryableChunkError(error: unknown, retryOn: number[]): boolean {
+  if (isCancelledError(error)) return false;
+  const status = (error as { response?: AxiosResponse })?.response?.status;
+  // No response means a network error
+  return status === undefined || retryOn.includes(status);
+}
+
+// A stored upload the server no longer has, or no longer lets us append to
+function isExpiredUploadError(error: unknown): boolean {
+  const status = (error as { response?: AxiosResponse })?.response?.status;
+  return status === 403 || status === 404 || status === 410;
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError("Upload cancelled", { code: "ERR_CANCELED" }));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Uploads a file in chunks, retrying failed chunks and persisting progress
+ * so an interrupted upload continues where it stopped, even after a reload.
+ *
+ * @example
+ * const upload = apiService.createResumableUpload({ file, url: "/files" });
+ * upload.subscribe(({ progress }) => render(progress.percent));
+ * await upload.start();
+ */
+export class ResumableUpload {
+  private readonly request: UploadRequester;
+  private readonly file: Blob;
+  private readonly url: string;
+  private readonly metadata: Record<string, string>;
+  private readonly protocol: UploadProtocol;
+  private readonly chunkSize: number;
+  private readonly concurrency: number;
+  private readonly retry: Required<RetryPolicy>;
+  private readonly storage: StorageAdapter;
+  private readonly storageKey: string;
+
+  private state: ResumableUploadState;
+  private listeners = new Set<(state: ResumableUploadState) => void>();
+  private controller?: AbortController;
+  private running?: Promise<unknown>;
+  private settled: Promise<void> = Promise.resolve(); // The last run, aborted or not
+  private uploadUrl?: string;
+  private confirmed = 0; // Bytes the server acknowledged
+  private inFlight = new Map<number, number>(); // Chunk index -> bytes sent
+
+  constructor(request: UploadRequester, options: ResumableUploadOptions) {
+    this.request = request;
+    this.file = options.file;
+    this.url = options.url;
+    this.metadata = options.metadata ?? {};
+    this.protocol = options.protocol ?? tusProtocol();
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.concurrency = this.protocol.sequential
+      ? 1
+      : Math.max(options.concurrency ?? 3, 1);
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.storage = options.storage ?? getDefaultStorage();
+    this.storageKey = `upload:${
+      options.fingerprint ?? getFingerprint(options.file, options.url)
+    }`;
+    this.state = {
+      status: "idle",
+      progress: { loaded: 0, total: this.file.size, percent: 0 },
+    };
+  }
+
+  public getState(): ResumableUploadState {
+    return this.state;
+  }
+
+  public subscribe(listener: (state: ResumableUploadState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start the upload, or continue a paused or interrupted one. Rejects with
+   * a CancelledError when paused or cancelled before it completes.
+   */
+  public start(): Promise<unknown> {
+    if (this.running) return this.running;
+
+    const controller = new AbortController();
+    this.controller = controller;
+    this.setState({ status: "uploading", error: undefined });
+
+    // A paused run may still be winding down; don't send alongside it
+    const running = this.settled
+      .then(() => {
+        if (controller.signal.aborted) {
+          throw new CancelledError("Upload cancelled", {
+            code: "ERR_CANCELED",
+          });
+        }
+        return this.run(controller.signal);
+      })
+      .then(
+        async (result) => {
+          await this.storage.removeItem(this.storageKey);
+          this.uploadUrl = undefined;
+          this.setState({ status: "completed", result });
+          return result;
+        },
+        (error) => {
+          // Paused or cancelled: the status was already set
+          if (!controller.signal.aborted) {
+            this.setState({ status: "failed", error });
+          }
+          throw error;
+        }
+      )
+      .finally(() => {
+        if (this.running === running) this.running = undefined;
+      });
+
+    this.running = running;
+    this.settled = running.then(
+      () => undefined,
+      () => undefined
+    );
+    return running;
+  }
+
+  public resume(): Promise<unknown> {
+    return this.start();
+  }
+
+  // Stop sending; the progress is kept so `resume()` can continue
+  public pause(): void {
+    if (this.state.status !== "uploading") return;
+    this.setState({ status: "paused" });
+    this.controller?.abort();
+    // `resume()` starts a new run, which waits for this one to wind down
+    this.running = undefined;
+  }
+
+  // Stop for good and forget the upload, on the server too if supported.
+  // A completed upload is left alone
+  public async cancel(): Promise<void> {
+    if (this.state.status === "completed") return;
+    this.setState({ status: "cancelled" });
+    this.controller?.abort();
+    this.running = undefined;
+
+    const saved = await this.storage.getItem<SavedUpload>(this.storageKey);
+    await this.storage.removeItem(this.storageKey);
+    const uploadUrl = this.uploadUrl ?? saved?.uploadUrl;
+    if (uploadUrl && this.protocol.abort) {
+      await this.protocol
+        .abort(this.getSession(uploadUrl, new AbortController().signal))
+        .catch(() => undefined);
+    }
+  }
+
+  private async run(signal: AbortSignal): Promise<unknown> {
+    const saved = await this.storage.getItem<SavedUpload>(this.storageKey);
+    if (saved) {
+      try {
+        return await this.send(saved, true, signal);
+      } catch (error) {
+        if (signal.aborted || !isExpiredUploadError(error)) throw error;
+        // The server dropped the upload, start over with a new one
+        await this.storage.removeItem(this.storageKey);
+      }
+    }
+
+    const uploadUrl = await this.protocol.create({
+      request: this.request,
+      file: this.file,
+      metadata: this.metadata,
+      url: this.url,
+      signal,
+    });
+    const created = { uploadUrl, chunkSize: this.chunkSize, completed: [] };
+    await this.storage.setItem(this.storageKey, created);
+    return this.send(created, false, signal);
+  }
+
+  private async send(
+    saved: SavedUpload,
+    resuming: boolean,
+    signal: AbortSignal
+  ): Promise<unknown> {
+    this.uploadUrl = saved.uploadUrl;
+    const session = this.getSession(saved.uploadUrl, signal);
+    if (this.protocol.sequential) {
+      await this.uploadSequential(session, resuming);
+    } else {
+      await this.uploadParallel(session, saved);
+    }
+
+    return this.protocol.complete?.(session);
+  }
+
+  private async uploadSequential(
+    session: UploadSession,
+    resuming: boolean
+  ): Promise<void> {
+    const { getOffset } = this.protocol;
+    let offset = resuming && getOffset ? await getOffset(session) : 0;
+    this.setConfirmed(offset);
+
+    while (offset < this.file.size) {
+      await this.withRetry(session.signal, async (attempt) => {
+        // A failed chunk may have been partly stored
+        if (attempt > 1 && getOffset) {
+          offset = await getOffset(session);
+          this.setConfirmed(offset);
+          if (offset >= this.file.size) return;
+        }
+
+        const end = Math.min(offset + this.chunkSize, this.file.size);
+        await this.sendChunk(
+          session,
+          Math.floor(offset / this.chunkSize),
+          offset,
+          end
+        );
+        offset = end;
+        this.setConfirmed(offset);
+      });
+    }
+  }
+
+  private async uploadParallel(
+    session: UploadSession,
+    saved: SavedUpload
+  ): Promise<void> {
+    const { chunkSize } = saved;
+    const completed = new Set(saved.completed);
+    const chunkCount = Math.ceil(this.file.size / chunkSize);
+    const chunkEnd = (index: number) =>
+      Math.min((index + 1) * chunkSize, this.file.size);
+
+    const pending: number[] = [];
+    let confirmed = 0;
+    for (let index = 0; index < chunkCount; index++) {
+      if (completed.has(index)) {
+        confirmed += chunkEnd(index) - index * chunkSize;
+      } else {
+        pending.push(index);
+      }
+    }
+    this.setConfirmed(confirmed);
+
+    let failed = false;
+    const worker = async () => {
+      let index: number | undefined;
+      while (!failed && (index = pending.shift()) !== undefined) {
+        const chunkIndex = index;
+        const start = chunkIndex * chunkSize;
+        const end = chunkEnd(chunkIndex);
+        try {
+          await this.withRetry(session.signal, () =>
+            this.sendChunk(session, chunkIndex, start, end)
+          );
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+
+        completed.add(chunkIndex);
+        this.setConfirmed(this.confirmed + end - start);
+        await this.storage.setItem(this.storageKey, {
+          ...saved,
+          completed: Array.from(completed),
+        });
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, pending.length) }, worker)
+    );
+  }
+
+  private async sendChunk(
+    session: UploadSession,
+    index: number,
+    start: number,
+    end: number
+  ): Promise<void> {
+    try {
+      await this.protocol.uploadChunk({
+        ...session,
+        chunk: this.file.slice(start, end),
+        index,
+        offset: start,
+        onProgress: (loaded) => {
+          this.inFlight.set(index, loaded);
+          this.updateProgress();
+        },
+      });
+    } finally {
+      // Counted again once the caller confirms the chunk
+      this.inFlight.delete(index);
+    }
+  }
+
+  private async withRetry(
+    signal: AbortSignal,
+    send: (attempt: number) => Promise<void>
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send(attempt);
+      } catch (error) {
+        if (
+          signal.aborted ||
+          attempt >= this.retry.maxAttempts ||
+          !isRetryableChunkError(error, this.retry.retryOn)
+        ) {
+          throw error;
+        }
+        await wait(getRetryDelay(this.retry, attempt), signal);
+      }
+    }
+  }
+
+  private getSession(uploadUrl: string, signal: AbortSignal): UploadSession {
+    return {
+      request: this.request,
+      file: this.file,
+      metadata: this.metadata,
+      uploadUrl,
+      signal,
+    };
+  }
+
+  private setConfirmed(bytes: number): void {
+    this.confirmed = bytes;
+    this.updateProgress();
+  }
+
+  private updateProgress(): void {
+    let loaded = this.confirmed;
+    this.inFlight.forEach((bytes) => {
+      loaded += bytes;
+    });
+    loaded = Math.min(loaded, this.file.size);
+
+    const total = this.file.size;
+    this.setState({
+      progress: {
+        loaded,
+        total,
+        percent: total ? Math.round((loaded / total) * 100) : 100,
+      },
+    });
+  }
+
+  private setState(update: Partial<ResumableUploadState>): void {
+    this.state = { ...this.state, ...update };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
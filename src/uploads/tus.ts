@@ -0,0 +1,84 @@
+import type { UploadProtocol } from ".";
+import { encodeBase64 } from "../utils/base64";
+
+const TUS_VERSION = "1.0.0";
+
+export interface TusProtocolOptions {
+  headers?: Record<string, string>; // Sent with every tus request
+  terminate?: boolean; // DELETE cancelled uploads (termination extension), default true
+}
+
+// Values are base64 of their UTF-8 bytes, as `Upload-Metadata` requires
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encodeBase64(value)}`)
+    .join(",");
+}
+
+/**
+ * The tus 1.0 resumable upload protocol (https://tus.io): POST creates the
+ * upload, HEAD reads its offset and PATCH appends chunks in order.
+ */
+export function tusProtocol(options: TusProtocolOptions = {}): UploadProtocol {
+  const { terminate = true } = options;
+  const headers = { ...options.headers, "Tus-Resumable": TUS_VERSION };
+
+  return {
+    sequential: true,
+    create: async ({ request, file, metadata, url, signal }) => {
+      const res = await request({
+        url,
+        method: "post",
+        signal,
+        headers: {
+          ...headers,
+          "Upload-Length": String(file.size),
+          ...(Object.keys(metadata).length
+            ? { "Upload-Metadata": encodeMetadata(metadata) }
+            : {}),
+        },
+      });
+
+      const location = res.headers?.location as string | undefined;
+      if (!location) {
+        throw new Error("tus server did not return the upload's Location");
+      }
+      return location;
+    },
+    getOffset: async ({ request, uploadUrl, signal }) => {
+      const res = await request({
+        url: uploadUrl,
+        method: "head",
+        signal,
+        headers,
+      });
+      return Number(res.headers?.["upload-offset"] ?? 0);
+    },
+    uploadChunk: async ({
+      request,
+      uploadUrl,
+      chunk,
+      offset,
+      signal,
+      onProgress,
+    }) => {
+      await request({
+        url: uploadUrl,
+        method: "patch",
+        data: chunk,
+        signal,
+        headers: {
+          ...headers,
+          "Upload-Offset": String(offset),
+          "Content-Type": "application/offset+octet-stream",
+        },
+        onUploadProgress: (event) => onProgress(event.loaded),
+      });
+    },
+    abort: terminate
+      ? async ({ request, uploadUrl }) => {
+          await request({ url: uploadUrl, method: "delete", headers });
+        }
+      : undefined,
+  };
+}
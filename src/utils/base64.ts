@@ -0,0 +1,8 @@
+// Base64 of the UTF-8 bytes; btoa alone only takes Latin-1
+export function encodeBase64(value: string): string {
+  return btoa(
+    encodeURIComponent(value).replace(/%([0-9A-F]{2})/g, (_match, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+  );
+}
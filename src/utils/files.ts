@@ -0,0 +1,81 @@
+/**
+ * Build multipart form data from a plain object. Files, Blobs and FileLists
+ * are appended as-is, arrays repeat their key, nested objects use
+ * `parent[child]` keys and null/undefined values are skipped.
+ *
+ * @example
+ * toFormData({ title: "Report", attachments: input.files, meta: { tag: "q3" } })
+ */
+export function toFormData(
+  values: Record<string, unknown> | FormData,
+  formData: FormData = new FormData(),
+  prefix?: string
+): FormData {
+  if (values instanceof FormData) return values;
+
+  Object.entries(values).forEach(([name, value]) => {
+    appendValue(formData, prefix ? `${prefix}[${name}]` : name, value);
+  });
+  return formData;
+}
+
+function appendValue(formData: FormData, key: string, value: unknown): void {
+  if (value === null || value === undefined) return;
+
+  if (value instanceof Blob) {
+    formData.append(key, value);
+  } else if (
+    Array.isArray(value) ||
+    (typeof FileList !== "undefined" && value instanceof FileList)
+  ) {
+    Array.from(value as ArrayLike<unknown>).forEach((item) =>
+      appendValue(formData, key, item)
+    );
+  } else if (value instanceof Date) {
+    formData.append(key, value.toISOString());
+  } else if (typeof value === "object") {
+    toFormData(value as Record<string, unknown>, formData, key);
+  } else {
+    formData.append(key, String(value));
+  }
+}
+
+/**
+ * Filename from a `Content-Disposition` header, preferring the RFC 5987
+ * `filename*=UTF-8''...` form.
+ */
+export function getContentDispositionFilename(
+  header: string | null | undefined
+): string | undefined {
+  if (!header) return undefined;
+
+  const encoded = header.match(/filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[2].trim().replace(/^"|"$/g, ""));
+    } catch {
+      // Malformed encoding, fall back to the plain filename
+    }
+  }
+
+  const plain = header.match(/filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i);
+  if (!plain) return undefined;
+  return plain[2] !== undefined
+    ? plain[2].replace(/\\(.)/g, "$1")
+    : plain[1].trim();
+}
+
+/**
+ * Let the browser save a downloaded Blob under the given filename.
+ */
+export function saveBlob(blob: Blob, filename = "download"): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
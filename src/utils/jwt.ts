@@ -0,0 +1,38 @@
+export interface JwtPayload {
+  exp?: number; // Seconds since epoch
+  [claim: string]: unknown;
+}
+
+/**
+ * Decode the payload of a JWT without verifying it.
+ * Returns null for anything that isn't a well-formed token.
+ */
+export function decodeJwt(token: string): JwtPayload | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = base64.padEnd(
+      base64.length + ((4 - (base64.length % 4)) % 4),
+      "="
+    );
+    const json = decodeURIComponent(
+      Array.from(atob(padded))
+        .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`)
+        .join("")
+    );
+    const decoded = JSON.parse(json);
+    return decoded && typeof decoded === "object" ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a JWT in milliseconds since epoch, if it has an `exp` claim.
+ */
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
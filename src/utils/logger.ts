@@ -0,0 +1,24 @@
+import { Logger, LogLevel } from "../types";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * Logs to the console, dropping messages below `level`.
+ */
+export function consoleLogger(level: LogLevel | "silent" = "warn"): Logger {
+  const minimum = level === "silent" ? LEVELS.length : LEVELS.indexOf(level);
+  const log =
+    (messageLevel: LogLevel) =>
+    (message: string, context?: Record<string, unknown>) => {
+      if (LEVELS.indexOf(messageLevel) < minimum) return;
+      const args = context ? [context] : [];
+      console[messageLevel](`[api-client] ${message}`, ...args);
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
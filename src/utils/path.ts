@@ -0,0 +1,58 @@
+// Name of a path segment that is a whole `:param` placeholder
+type SegmentParam<TSegment extends string> = TSegment extends `:${infer Param}`
+  ? Param
+  : never;
+
+// Names of the `:param` placeholders in a path template, ignoring the
+// query string and fragment, e.g. "/users/:id/posts/:postId" -> "id" | "postId"
+export type PathParamNames<TPath extends string> =
+  TPath extends `${infer Path}?${string}`
+    ? PathParamNames<Path>
+    : TPath extends `${infer Path}#${string}`
+    ? PathParamNames<Path>
+    : TPath extends `${infer Segment}/${infer Rest}`
+    ? SegmentParam<Segment> | PathParamNames<Rest>
+    : SegmentParam<TPath>;
+
+export type PathParams<TPath extends string> = {
+  [K in PathParamNames<TPath>]: string | number;
+};
+
+// Only whole segments, so "/projects/1:publish" keeps its colon
+const PLACEHOLDER = /(^|\/):([A-Za-z_][A-Za-z0-9_]*)(?=\/|$)/g;
+
+// Replace each `:param` segment of a pathname with `replace(name)`
+export function replacePathParams(
+  pathname: string,
+  replace: (name: string) => string
+): string {
+  return pathname.replace(
+    PLACEHOLDER,
+    (_match, slash: string, name: string) => `${slash}${replace(name)}`
+  );
+}
+
+/**
+ * Replace every `:param` placeholder in `path` with its encoded value.
+ * Only segments before the query string or fragment are placeholders.
+ * Throws if a placeholder has no value.
+ */
+export function interpolatePath(
+  path: string,
+  pathParams: Record<string, unknown> = {}
+): string {
+  const end = path.search(/[?#]/);
+  const pathname = end === -1 ? path : path.slice(0, end);
+  const rest = end === -1 ? "" : path.slice(end);
+
+  const interpolated = replacePathParams(pathname, (name) => {
+    const value = pathParams[name];
+    if (value === undefined || value === null || value === "") {
+      throw new Error(
+        `Missing value for path parameter ':${name}' in '${path}'`
+      );
+    }
+    return encodeURIComponent(String(value));
+  });
+  return `${interpolated}${rest}`;
+}